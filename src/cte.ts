@@ -0,0 +1,17 @@
+import { IQuery, Query } from '@swivel-admin/node-jql'
+
+export interface ICommonTableExpression {
+  name: string
+  query: Query
+}
+
+// WITH name AS (...), ... SELECT ...
+export class WithQuery extends Query {
+  constructor(json: IQuery, readonly ctes: ICommonTableExpression[]) {
+    super(json)
+  }
+
+  toString(type?: any): string {
+    return `WITH ${this.ctes.map(({ name, query }) => `${name} AS (${query.toString(type)})`).join(', ')} ${super.toString(type)}`
+  }
+}
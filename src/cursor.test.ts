@@ -0,0 +1,65 @@
+import { AndExpressions, BinaryExpression, IsNullExpression, OrderBy, OrExpressions } from '@swivel-admin/node-jql'
+import { cursorKeys, decodeCursor, encodeCursor, keysetCondition } from './cursor'
+
+describe('cursor', () => {
+  test('encoded with the sorting keys', () => {
+    const keys = cursorKeys(['carrier', { key: 'cbm', direction: 'DESC' }])
+    expect(keys).toEqual(['carrier', 'cbm'])
+    expect(decodeCursor(encodeCursor(keys, ['OOCL', null]), keys)).toEqual(['OOCL', null])
+    expect(() => decodeCursor(encodeCursor(keys, ['OOCL', 1]), ['carrier'])).toThrow(/does not match/)
+    expect(() => decodeCursor('not a cursor', keys)).toThrow(/Invalid cursor/)
+  })
+})
+
+// NULL is the smallest value, i.e. first in ASC and last in DESC
+describe('keysetCondition', () => {
+  test('ASC after a value', () => {
+    const condition = keysetCondition([new OrderBy('a', 'ASC')], [1]) as any
+    expect(condition).toBeInstanceOf(BinaryExpression)
+    expect(condition.operator).toBe('>')
+  })
+
+  test('ASC after NULL', () => {
+    const condition = keysetCondition([new OrderBy('a', 'ASC')], [null]) as any
+    expect(condition).toBeInstanceOf(IsNullExpression)
+    expect(condition.$not).toBe(true)
+  })
+
+  test('DESC after a value includes NULL', () => {
+    const condition = keysetCondition([new OrderBy('a', 'DESC')], [1]) as any
+    expect(condition).toBeInstanceOf(OrExpressions)
+    expect(condition.expressions[0].operator).toBe('<')
+    expect(condition.expressions[1]).toBeInstanceOf(IsNullExpression)
+    expect(condition.expressions[1].$not).toBe(false)
+  })
+
+  test('DESC after NULL matches no row', () => {
+    const condition = keysetCondition([new OrderBy('a', 'DESC')], [null]) as any
+    expect(condition).toBeInstanceOf(BinaryExpression)
+    expect(condition.left.value).toBe(1)
+    expect(condition.right.value).toBe(0)
+  })
+
+  test('ties on NULL', () => {
+    // a IS NOT NULL OR (a IS NULL AND (b < 5 OR b IS NULL))
+    const condition = keysetCondition([new OrderBy('a', 'ASC'), new OrderBy('b', 'DESC')], [null, 5]) as any
+    expect(condition).toBeInstanceOf(OrExpressions)
+    expect(condition.expressions).toHaveLength(2)
+    expect(condition.expressions[0]).toBeInstanceOf(IsNullExpression)
+    expect(condition.expressions[0].$not).toBe(true)
+
+    const tie = condition.expressions[1]
+    expect(tie).toBeInstanceOf(AndExpressions)
+    expect(tie.expressions[0]).toBeInstanceOf(IsNullExpression)
+    expect(tie.expressions[0].$not).toBe(false)
+    expect(tie.expressions[1]).toBeInstanceOf(OrExpressions)
+  })
+
+  test('ties after NULL in DESC are skipped', () => {
+    // (b IS NULL AND a > 2) only, as no row is after NULL of b in DESC
+    const condition = keysetCondition([new OrderBy('b', 'DESC'), new OrderBy('a', 'ASC')], [null, 2]) as any
+    expect(condition).toBeInstanceOf(AndExpressions)
+    expect(condition.expressions[0]).toBeInstanceOf(IsNullExpression)
+    expect(condition.expressions[1].operator).toBe('>')
+  })
+})
@@ -0,0 +1,63 @@
+import { AndExpressions, BinaryExpression, IConditionalExpression, IExpression, IOrderBy, IsNullExpression, OrExpressions, Value } from '@swivel-admin/node-jql'
+import { OrderByParams } from './queryParams'
+
+export function cursorKeys(sorting: OrderByParams[]): string[] {
+  return sorting.map(o => {
+    if (typeof o === 'string') return o
+    if ('key' in o) return o.key
+    throw new Error('Cursor pagination supports sorting by registered or column names only')
+  })
+}
+
+// hidden result column of the i-th sorting expression
+export function cursorColumn(index: number): string {
+  return `cursor_${index}`
+}
+
+export function encodeCursor(keys: string[], values: any[]): string {
+  return Buffer.from(JSON.stringify({ keys, values })).toString('base64')
+}
+
+export function decodeCursor(cursor: string, keys: string[]): any[] {
+  let json: any
+  try {
+    json = JSON.parse(Buffer.from(cursor, 'base64').toString())
+  }
+  catch (e) {
+    throw new Error('Invalid cursor')
+  }
+  if (!json || !Array.isArray(json.keys) || !Array.isArray(json.values) || json.keys.join(',') !== keys.join(',')) {
+    throw new Error('Cursor does not match the sorting')
+  }
+  return json.values
+}
+
+function equal(expression: IExpression, value: any): IConditionalExpression {
+  return value === null ? new IsNullExpression(expression, false) : new BinaryExpression(expression, '=', new Value(value))
+}
+
+// NULL is the smallest value as in MySQL, i.e. first in ASC and last in DESC. undefined if no row is after
+function after({ expression, order }: IOrderBy, value: any): IConditionalExpression | undefined {
+  if (order === 'DESC') {
+    if (value === null) return undefined
+    return new OrExpressions([new BinaryExpression(expression, '<', new Value(value)), new IsNullExpression(expression, false)])
+  }
+  return value === null ? new IsNullExpression(expression, true) : new BinaryExpression(expression, '>', new Value(value))
+}
+
+// rows after the cursor, i.e. a > ? OR (a = ? AND b < ?) for ORDER BY a ASC, b DESC
+export function keysetCondition(order: IOrderBy[], values: any[]): IConditionalExpression {
+  const conditions: IConditionalExpression[] = []
+  for (let i = 0, length = order.length; i < length; i += 1) {
+    const condition = after(order[i], values[i])
+    if (!condition) continue
+    const expressions: IConditionalExpression[] = []
+    for (let j = 0; j < i; j += 1) {
+      expressions.push(equal(order[j].expression, values[j]))
+    }
+    expressions.push(condition)
+    conditions.push(expressions.length > 1 ? new AndExpressions(expressions) : expressions[0])
+  }
+  if (!conditions.length) return new BinaryExpression(new Value(1), '=', new Value(0))
+  return conditions.length > 1 ? new OrExpressions(conditions) : conditions[0]
+}
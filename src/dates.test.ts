@@ -0,0 +1,101 @@
+import { ColumnExpression, IExpression, Query } from '@swivel-admin/node-jql'
+import { DatePreset, fiscalExpressions, IFiscalCalendar, presetDates, previousDateRange } from './dates'
+
+// 4-4-5 from 2024-01-01, with fiscal year 2025 of 53 weeks, i.e. 2024-12-30 - 2026-01-04
+const calendar: IFiscalCalendar = { weeks: [4, 4, 5], startDate: '2024-01-01', longYears: [2025] }
+
+function day(value: string): Date {
+  return new Date(`${value}T00:00:00Z`)
+}
+
+function range([from, to]: [Date, Date]): string {
+  return `${from.toISOString().substr(0, 10)} - ${to.toISOString().substr(0, 10)}`
+}
+
+function sql(expression: IExpression): string {
+  return new Query({ $select: [{ expression }] }).toString()
+}
+
+describe('presetDates', () => {
+  test.each([
+    ['2026-10-19', 'thisMonth', '2026-10-01 - 2026-10-31'],
+    ['2026-03-31', 'lastMonth', '2026-02-01 - 2026-02-28'],
+    ['2026-05-15', 'quarterToDate', '2026-04-01 - 2026-05-15'],
+    ['2026-05-15', 'yearToDate', '2026-01-01 - 2026-05-15'],
+    ['2024-02-29', 'lastYearSamePeriod', '2023-01-01 - 2023-02-28']
+  ])('%s %s', (today, preset, expected) => {
+    expect(range(presetDates({ preset: preset as DatePreset }, day(today)))).toBe(expected)
+  })
+
+  test('lastNDays includes today', () => {
+    expect(range(presetDates({ preset: 'lastNDays', n: 7 }, day('2026-10-19')))).toBe('2026-10-13 - 2026-10-19')
+    expect(() => presetDates({ preset: 'lastNDays' }, day('2026-10-19'))).toThrow(/n >= 1/)
+  })
+
+  test('fiscal year starting in April', () => {
+    expect(range(presetDates({ preset: 'thisFiscalYear' }, day('2026-03-15'), { startMonth: 4 }))).toBe('2025-04-01 - 2026-03-31')
+    expect(range(presetDates({ preset: 'lastFiscalQuarter' }, day('2026-04-01'), { startMonth: 4 }))).toBe('2026-01-01 - 2026-03-31')
+  })
+})
+
+describe('presetDates of 4-4-5', () => {
+  test.each([
+    ['2024-01-01', 'thisFiscalYear', '2024-01-01 - 2024-12-29'],
+    ['2024-01-01', 'thisFiscalPeriod', '2024-01-01 - 2024-01-28'],
+    ['2024-02-05', 'lastFiscalPeriod', '2024-01-01 - 2024-01-28'],
+    ['2024-12-29', 'thisFiscalPeriod', '2024-11-25 - 2024-12-29'],
+
+    // 53 weeks, the extra week in period 12
+    ['2024-12-30', 'thisFiscalYear', '2024-12-30 - 2026-01-04'],
+    ['2025-12-28', 'thisFiscalPeriod', '2025-11-24 - 2026-01-04'],
+    ['2026-01-04', 'thisFiscalQuarter', '2025-09-29 - 2026-01-04'],
+    ['2026-01-04', 'thisFiscalPeriod', '2025-11-24 - 2026-01-04'],
+    ['2026-01-04', 'fiscalYearToDate', '2024-12-30 - 2026-01-04'],
+
+    // 52 weeks again after the long year
+    ['2026-01-05', 'thisFiscalYear', '2026-01-05 - 2027-01-03'],
+    ['2026-01-05', 'lastFiscalYear', '2024-12-30 - 2026-01-04'],
+    ['2026-01-05', 'lastFiscalQuarter', '2025-09-29 - 2026-01-04'],
+    ['2026-01-05', 'lastFiscalPeriod', '2025-11-24 - 2026-01-04'],
+    ['2027-01-03', 'thisFiscalPeriod', '2026-11-30 - 2027-01-03']
+  ])('%s %s', (today, preset, expected) => {
+    expect(range(presetDates({ preset: preset as DatePreset }, day(today), calendar))).toBe(expected)
+  })
+
+  test('dates before startDate are rejected', () => {
+    expect(() => presetDates({ preset: 'thisFiscalYear' }, day('2023-12-31'), calendar)).toThrow(/before the fiscal calendar startDate/)
+    expect(() => presetDates({ preset: 'lastFiscalYear' }, day('2024-06-01'), calendar)).toThrow(/Fiscal year 2023 is before/)
+  })
+
+  test('invalid longYears', () => {
+    expect(() => presetDates({ preset: 'thisFiscalYear' }, day('2024-06-01'), { ...calendar, longYears: [2023] })).toThrow(/longYears/)
+    expect(() => presetDates({ preset: 'thisFiscalYear' }, day('2024-06-01'), { startMonth: 1, longYears: [2025] })).toThrow(/longYears requires weeks/)
+  })
+})
+
+describe('fiscalExpressions of 4-4-5', () => {
+  const jobDate = new ColumnExpression('jobDate')
+
+  // the same year starts as the presets, i.e. 2025 from day 364 and 2026 from day 735
+  test('segmented by the long years', () => {
+    const year = sql(fiscalExpressions(jobDate, calendar).year)
+    expect(year).toMatch(/<\s*0\b/)
+    expect(year).toMatch(/<\s*735\b/)
+    expect(year).toMatch(/LEAST/)
+  })
+
+  test('no segment without long years', () => {
+    const year = sql(fiscalExpressions(jobDate, { weeks: [4, 4, 5], startDate: '2024-01-01' }).year)
+    expect(year).not.toMatch(/LEAST/)
+    expect(year).not.toMatch(/735/)
+  })
+})
+
+describe('previousDateRange', () => {
+  test.each([
+    ['previousPeriod', '2026-01-01 00:00:00', '2026-03-31 23:59:59', '2025-10-03 00:00:00', '2025-12-31 23:59:59'],
+    ['lastYear', '2024-02-01 00:00:00', '2024-02-29 23:59:59', '2023-02-01 00:00:00', '2023-02-28 23:59:59']
+  ])('%s of %s - %s', (period, from, to, expectedFrom, expectedTo) => {
+    expect(previousDateRange({ from, to }, period as any)).toEqual({ from: expectedFrom, to: expectedTo })
+  })
+})
@@ -0,0 +1,297 @@
+import { BinaryExpression, CaseExpression, FunctionExpression, IExpression, MathExpression, ParameterExpression, Value } from '@swivel-admin/node-jql'
+import { IQueryParams } from './queryParams'
+
+export type DatePreset = 'thisMonth' | 'lastMonth' | 'lastNDays' | 'quarterToDate' | 'yearToDate' | 'lastYearSamePeriod' | FiscalPreset
+
+// available with the fiscal calendar
+export type FiscalPreset = 'thisFiscalYear' | 'lastFiscalYear' | 'fiscalYearToDate' | 'thisFiscalQuarter' | 'lastFiscalQuarter' | 'fiscalQuarterToDate' | 'thisFiscalPeriod' | 'lastFiscalPeriod'
+
+export interface IDatePreset {
+  preset: DatePreset
+  n?: number  // required by lastNDays
+}
+
+export interface IFiscalCalendar {
+  startMonth?: number               // 1 - 12, e.g. 4 for April. 1 by default
+  weeks?: [number, number, number]  // week pattern of the periods in a quarter, e.g. [4, 4, 5]. 13 weeks in total
+  startDate?: string                // YYYY-MM-DD, the first day of a fiscal year with week pattern. a fiscal year is 52 weeks
+  longYears?: number[]              // fiscal years of 53 weeks with week pattern, the extra week in the last period
+}
+
+type FiscalUnit = 'year' | 'quarter' | 'period'
+
+// the same no. of days right before the range, or the same dates of the last year
+export type ComparisonPeriod = 'previousPeriod' | 'lastYear'
+
+export interface IDateRange {
+  from: any
+  to: any
+}
+
+// calendar date in UTC, i.e. local date in the timezone
+type CalendarDate = Date
+
+const offsetRegex = /^([+-])(\d{2}):(\d{2})$/
+
+// current date in the timezone, either IANA name or offset e.g. +08:00
+function calendarDate(now: Date, timezone?: string): CalendarDate {
+  const offset = timezone && offsetRegex.exec(timezone)
+  if (offset) {
+    const minutes = (+offset[2] * 60 + +offset[3]) * (offset[1] === '-' ? -1 : 1)
+    const local = new Date(now.getTime() + minutes * 60000)
+    return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()))
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone: timezone || 'UTC', year: 'numeric', month: 'numeric', day: 'numeric' }).formatToParts(now)
+  const part = (type: string) => +(parts.find(p => p.type === type) as Intl.DateTimeFormatPart).value
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day')))
+}
+
+// day of month out of range is clamped, e.g. Feb 29 -> Feb 28
+function date(year: number, month: number, day = 1): CalendarDate {
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(year, month, Math.min(day, lastDay)))
+}
+
+function addDays(value: CalendarDate, days: number): CalendarDate {
+  return new Date(value.getTime() + days * 86400000)
+}
+
+function format(value: CalendarDate, time: string): string {
+  return `${value.toISOString().substr(0, 10)} ${time}`
+}
+
+function checkFiscalCalendar({ startMonth = 1, weeks, startDate, longYears = [] }: IFiscalCalendar) {
+  if (startMonth < 1 || startMonth > 12) throw new Error('Fiscal calendar startMonth should be 1 - 12')
+  if (weeks) {
+    if (weeks.length !== 3 || weeks[0] + weeks[1] + weeks[2] !== 13) throw new Error('Fiscal calendar weeks should be 3 periods of 13 weeks in total')
+    if (!startDate || isNaN(new Date(`${startDate}T00:00:00Z`).getTime())) throw new Error('Fiscal calendar with weeks requires startDate YYYY-MM-DD')
+    if (longYears.some(year => !Number.isInteger(year) || year < +startDate.substr(0, 4))) throw new Error('Fiscal calendar longYears should be the fiscal years from startDate')
+  }
+  else if (longYears.length) {
+    throw new Error('Fiscal calendar longYears requires weeks')
+  }
+}
+
+// days of the fiscal year with week pattern
+function yearLength(year: number, { longYears = [] }: IFiscalCalendar): number {
+  return longYears.indexOf(year) > -1 ? 371 : 364
+}
+
+// days from startDate to the first day of the fiscal year with week pattern
+function yearStart(year: number, calendar: IFiscalCalendar): number {
+  const first = +(calendar.startDate as string).substr(0, 4)
+  if (year < first) throw new Error(`Fiscal year ${year} is before the fiscal calendar startDate`)
+  let days = 0
+  for (let y = first; y < year; y += 1) days += yearLength(y, calendar)
+  return days
+}
+
+// the first and the last day of the fiscal year, quarter or period. offset -1 for the last one
+function fiscalDates(unit: FiscalUnit, offset: number, today: CalendarDate, calendar: IFiscalCalendar): [CalendarDate, CalendarDate] {
+  const { startMonth = 1, weeks, startDate } = calendar
+
+  // 4-4-5
+  if (weeks) {
+    const anchor = new Date(`${startDate}T00:00:00Z`)
+    const days = Math.round((today.getTime() - anchor.getTime()) / 86400000)
+    if (days < 0) throw new Error(`Date ${today.toISOString().substr(0, 10)} is before the fiscal calendar startDate`)
+
+    let year = +(startDate as string).substr(0, 4), start = 0
+    while (days >= start + yearLength(year, calendar)) start += yearLength(year++, calendar)
+
+    // the first day of the period (0 - 12) of the year, i.e. the extra week of 53-week years in the last period
+    const bounds = [0, weeks[0], weeks[0] + weeks[1]]
+    const periodStart = (p: number, length: number) => p === 12 ? length : Math.floor(p / 3) * 91 + bounds[p % 3] * 7
+    const q = Math.min(Math.floor((days - start) / 91), 3), w = Math.floor((days - start - q * 91) / 7)
+    const size = unit === 'year' ? 12 : unit === 'quarter' ? 3 : 1
+    let k = Math.floor((q * 3 + (w < bounds[1] ? 0 : w < bounds[2] ? 1 : 2)) / size) * size + offset * size
+    for (; k < 0; k += 12) year -= 1
+    for (; k >= 12; k -= 12) year += 1
+    start = yearStart(year, calendar)
+    const length = yearLength(year, calendar)
+    return [addDays(anchor, start + periodStart(k, length)), addDays(anchor, start + periodStart(k + size, length) - 1)]
+  }
+
+  const size = unit === 'year' ? 12 : unit === 'quarter' ? 3 : 1
+  const year = today.getUTCFullYear(), month = today.getUTCMonth() - (startMonth - 1)
+  const first = startMonth - 1 + (Math.floor(month / size) + offset) * size
+  return [date(year, first), date(year, first + size, 0)]
+}
+
+export function isDatePreset(value: any): value is IDatePreset {
+  return !!value && typeof value === 'object' && typeof value.preset === 'string'
+}
+
+// { from, to } or { preset, n? }, returning the problem if any
+export function checkDateValue(value: any): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'Expect { from, to } or { preset }'
+  if (isDatePreset(value)) {
+    if (value.preset === 'lastNDays' && (typeof value.n !== 'number' || value.n < 1)) return `Date preset 'lastNDays' requires n >= 1`
+    return undefined
+  }
+  return 'from' in value && 'to' in value ? undefined : 'Expect { from, to } or { preset }'
+}
+
+// the start of the days relative to today, e.g. [-6, 1] for the last 7 days including today
+export function relativeDays(offsets: number[], params: IQueryParams = {}, now: () => Date = () => new Date()): string[] {
+  const today = currentDate(params, now)
+  return offsets.map(offset => format(addDays(today, offset), '00:00:00'))
+}
+
+// the first and the last day of the preset, inclusively
+export function presetDates({ preset, n }: IDatePreset, today: CalendarDate, calendar?: IFiscalCalendar): [CalendarDate, CalendarDate] {
+  const year = today.getUTCFullYear(), month = today.getUTCMonth()
+  if (preset.indexOf('Fiscal') > -1 || preset.startsWith('fiscal')) {
+    if (!calendar) throw new Error(`Date preset '${preset}' requires the fiscal calendar`)
+    checkFiscalCalendar(calendar)
+  }
+  switch (preset) {
+    case 'thisMonth':
+      return [date(year, month), date(year, month + 1, 0)]
+    case 'lastMonth':
+      return [date(year, month - 1), date(year, month, 0)]
+    case 'lastNDays':
+      if (typeof n !== 'number' || n < 1) throw new Error(`Date preset 'lastNDays' requires n >= 1`)
+      return [addDays(today, 1 - n), today]
+    case 'quarterToDate':
+      return [date(year, month - month % 3), today]
+    case 'yearToDate':
+      return [date(year, 0), today]
+    // year to date of the last year
+    case 'lastYearSamePeriod':
+      return [date(year - 1, 0), date(year - 1, month, today.getUTCDate())]
+    case 'thisFiscalYear':
+    case 'thisFiscalQuarter':
+    case 'thisFiscalPeriod':
+      return fiscalDates(preset.substr(10).toLocaleLowerCase() as FiscalUnit, 0, today, calendar as IFiscalCalendar)
+    case 'lastFiscalYear':
+    case 'lastFiscalQuarter':
+    case 'lastFiscalPeriod':
+      return fiscalDates(preset.substr(10).toLocaleLowerCase() as FiscalUnit, -1, today, calendar as IFiscalCalendar)
+    case 'fiscalYearToDate':
+      return [fiscalDates('year', 0, today, calendar as IFiscalCalendar)[0], today]
+    case 'fiscalQuarterToDate':
+      return [fiscalDates('quarter', 0, today, calendar as IFiscalCalendar)[0], today]
+    default:
+      throw new Error(`Unknown date preset '${preset}'`)
+  }
+}
+
+const dateRegex = /^(\d{4})-(\d{2})-(\d{2})(.*)$/
+
+// YYYY-MM-DD with the time part if any kept as it is
+function parseDate(value: any): [CalendarDate, string] {
+  const match = typeof value === 'string' && dateRegex.exec(value)
+  if (!match) throw new Error(`Expect date YYYY-MM-DD but received '${value}'`)
+  return [new Date(Date.UTC(+match[1], +match[2] - 1, +match[3])), match[4]]
+}
+
+// the range compared with, e.g. 2026-01-01 - 2026-03-31 -> 2025-10-03 - 2025-12-31 or 2025-01-01 - 2025-03-31
+export function previousDateRange({ from, to }: IDateRange, period: ComparisonPeriod): IDateRange {
+  const [fromDate, fromTime] = parseDate(from), [toDate, toTime] = parseDate(to)
+  const formatDate = (value: CalendarDate, time: string) => `${value.toISOString().substr(0, 10)}${time}`
+  switch (period) {
+    case 'previousPeriod': {
+      const days = Math.round((toDate.getTime() - fromDate.getTime()) / 86400000) + 1
+      return { from: formatDate(addDays(fromDate, -days), fromTime), to: formatDate(addDays(toDate, -days), toTime) }
+    }
+    case 'lastYear': {
+      const lastYear = (value: CalendarDate) => date(value.getUTCFullYear() - 1, value.getUTCMonth(), value.getUTCDate())
+      return { from: formatDate(lastYear(fromDate), fromTime), to: formatDate(lastYear(toDate), toTime) }
+    }
+    default:
+      throw new Error(`Unknown comparison period '${period}'`)
+  }
+}
+
+// datetime values are stored in UTC unless params.constants.dbTimezone is specified
+function timezones(params: IQueryParams = {}): [string, string | undefined] {
+  const { timezone, dbTimezone = '+00:00' } = params.constants || {}
+  return [dbTimezone, timezone && timezone !== dbTimezone ? timezone : undefined]
+}
+
+// datetime expression in params.constants.timezone
+export function convertTimezone(expression: IExpression, params?: IQueryParams): IExpression {
+  const [dbTimezone, timezone] = timezones(params)
+  return timezone ? new FunctionExpression('CONVERT_TZ', expression, new Value(dbTimezone), new Value(timezone)) : expression
+}
+
+// datetime value in params.constants.timezone converted back to the database one, so that the column is compared as it is
+export function toDatabaseTime(value: any, params?: IQueryParams): IExpression {
+  const [dbTimezone, timezone] = timezones(params)
+  return timezone ? new FunctionExpression('CONVERT_TZ', new Value(value), new Value(timezone), new Value(dbTimezone)) : new Value(value)
+}
+
+// today in params.constants.timezone, at params.constants.now if specified
+export function currentDate(params: IQueryParams = {}, now: () => Date = () => new Date()): CalendarDate {
+  const constants = params.constants || {}
+  return calendarDate(constants.now ? new Date(constants.now) : now(), constants.timezone)
+}
+
+// resolve { preset, n? } against params.constants.now and params.constants.timezone. absolute { from, to } is returned as it is
+export function resolveDateRange(value: IDatePreset | IDateRange, params: IQueryParams = {}, now: () => Date = () => new Date(), calendar?: IFiscalCalendar): IDateRange {
+  if (!isDatePreset(value)) return value
+  const [from, to] = presetDates(value, currentDate(params, now), calendar)
+  return { from: format(from, '00:00:00'), to: format(to, '23:59:59') }
+}
+
+// fiscal year (named by the year it starts), quarter (1 - 4) and period (1 - 12) of the date expression
+// with week pattern, NULL for the dates before startDate
+export function fiscalExpressions(expression: IExpression, calendar: IFiscalCalendar): { year: IExpression; quarter: IExpression; period: IExpression } {
+  checkFiscalCalendar(calendar)
+  const { startMonth = 1, weeks, startDate } = calendar
+
+  if (weeks) {
+    const days = new FunctionExpression('DATEDIFF', expression, new Value(startDate))
+    const floor = (value: IExpression, size: number) => new FunctionExpression('FLOOR', new MathExpression(value, '/', new Value(size)))
+
+    // the years of 52 weeks up to the 53-week one, and the ones after the last 53-week year
+    const first = +(startDate as string).substr(0, 4)
+    const longYears = (calendar.longYears || []).filter((year, i, list) => list.indexOf(year) === i).sort((l, r) => l - r)
+    const segments = [first, ...longYears.map(year => year + 1)].map((year, i) => {
+      const start = yearStart(year, calendar), last = longYears[i]
+      const offset = new MathExpression(days, '-', new Value(start))
+      const index = last === undefined ? floor(offset, 364) : new FunctionExpression('LEAST', floor(offset, 364), new Value(last - year))
+      return {
+        start,
+        year: new MathExpression(new Value(year), '+', index) as IExpression,
+        dayOfYear: new MathExpression(offset, '-', new MathExpression(new Value(364), '*', index)) as IExpression
+      }
+    })
+    const segmented = (part: 'year' | 'dayOfYear') => new CaseExpression(
+      [
+        { $when: new BinaryExpression(days, '<', new Value(0)), $then: new Value(null) },
+        ...segments.slice(0, -1).map((segment, i) => ({ $when: new BinaryExpression(days, '<', new Value(segments[i + 1].start)), $then: segment[part] }))
+      ],
+      segments[segments.length - 1][part]
+    )
+
+    const dayOfYear = segmented('dayOfYear')
+    const quarter = new MathExpression(new FunctionExpression('LEAST', floor(dayOfYear, 91), new Value(3)), '+', new Value(1))
+    const week = floor(new MathExpression(dayOfYear, '-', new MathExpression(new Value(91), '*', new MathExpression(quarter, '-', new Value(1)))), 7)
+    return {
+      year: segmented('year'),
+      quarter,
+      period: new MathExpression(
+        new MathExpression(new MathExpression(quarter, '-', new Value(1)), '*', new Value(3)),
+        '+',
+        new CaseExpression(
+          [
+            { $when: new BinaryExpression(week, '<', new Value(weeks[0])), $then: new Value(1) },
+            { $when: new BinaryExpression(week, '<', new Value(weeks[0] + weeks[1])), $then: new Value(2) }
+          ],
+          new Value(3)
+        )
+      )
+    }
+  }
+
+  // shift to the calendar year
+  const shifted = startMonth === 1 ? expression : new FunctionExpression('DATE_SUB', expression, new ParameterExpression('INTERVAL', new Value(startMonth - 1), 'MONTH'))
+  return {
+    year: new FunctionExpression('YEAR', shifted),
+    quarter: new FunctionExpression('QUARTER', shifted),
+    period: new FunctionExpression('MONTH', shifted)
+  }
+}
@@ -0,0 +1,358 @@
+import { IQuery } from '@swivel-admin/node-jql'
+import { LineCounter, Node, parseDocument } from 'yaml'
+import { QueryDef } from '.'
+import { IRegistration, IValidationProblem } from './interface'
+import { PolicyArg } from './policies'
+import { DefaultShortcuts } from './shortcuts'
+
+type Path = Array<string | number>
+
+/**
+ * serializable definition of QueryDef, in JSON or YAML
+ * expressions are node-jql JSON, where { $ref: name } refers to the registered expression
+ */
+export interface IDefinition {
+  base: Partial<IQuery> | { opaque: true }
+  registrations?: { [type: string]: IRegistration[] }
+  shortcuts?: any[]
+  shortcutOptions?: any  // options of queryDef.useShortcuts, e.g. IDimensionOptions, unless given to loadDefinition
+
+  // policies are defined by functions, and cannot be loaded
+  policies?: Array<{ name: string; table?: string; requires?: string[]; opaque: true }>
+}
+
+export interface ILoadDefinitionOptions {
+  // re-register the policies of the definition by name, with their table and requires. required for every policy exported
+  policies?: { [key: string]: PolicyArg }
+}
+
+export interface IDefinitionProblem extends IValidationProblem {
+  line?: number
+  column?: number
+}
+
+interface IShortcutSchema {
+  oneOf: string[]       // one and only one of them
+  required?: string[]
+  optional?: string[]
+}
+
+const commonKeys = ['type', 'name', 'prerequisite', 'metadata']
+
+const schemas: { [key: string]: IShortcutSchema } = {
+  field: { oneOf: ['expression', 'query'], optional: ['registered'] },
+  table: { oneOf: ['fromTable', 'query'] },
+  subquery: { oneOf: ['expression', 'query'], optional: ['unknowns', 'variables'] },
+  groupBy: { oneOf: ['expression', 'query'] },
+  orderBy: { oneOf: ['expression', 'query'], optional: ['direction'] },
+  combo: { oneOf: ['expression'], optional: ['registered', 'operators'] },
+  dateSource: { oneOf: ['expression'] },
+  conditions: { oneOf: ['cases'] },
+  dimension: { oneOf: ['cases'] },
+  summaryMetric: { oneOf: ['expression'], optional: ['summaryType', 'percentile', 'registered', 'dimensions'] },
+  derivedMetric: { oneOf: ['expression'], required: ['metrics'], optional: ['dimensions'] },
+  pivot: { oneOf: ['expression'], required: ['metrics'] },
+  windowMetric: { oneOf: ['metric'], required: ['func'], optional: ['partitionBy', 'orderBy', 'offset'] },
+  comparison: { oneOf: ['dateSource'], required: ['metrics'], optional: ['period'] }
+}
+
+function isObject(value: any): boolean {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function pathToString(path: Path): string {
+  return path.reduce<string>((r, k) => typeof k === 'number' ? `${r}[${k}]` : r ? `${r}.${k}` : k, '')
+}
+
+function validate(json: any): Array<{ path: Path; message: string }> {
+  const problems: Array<{ path: Path; message: string }> = []
+  const problem = (path: Path, message: string) => problems.push({ path, message })
+
+  function checkRefs(value: any, path: Path) {
+    if (Array.isArray(value)) {
+      value.forEach((v, i) => checkRefs(v, [...path, i]))
+    }
+    else if (isObject(value)) {
+      if ('$ref' in value) {
+        if (typeof value.$ref !== 'string' || Object.keys(value).length > 1) problem(path, 'Expect { $ref: string }')
+      }
+      else {
+        for (const key of Object.keys(value)) checkRefs(value[key], [...path, key])
+      }
+    }
+  }
+
+  function checkExpression(value: any, path: Path) {
+    if (!isObject(value) || (typeof value.classname !== 'string' && !('$ref' in value))) {
+      return problem(path, 'Expect an expression with classname or { $ref: string }')
+    }
+    checkRefs(value, path)
+  }
+
+  function checkPrerequisite(value: any, path: Path) {
+    if (Array.isArray(value)) {
+      value.forEach((v, i) => {
+        if (typeof v !== 'string') problem([...path, i], 'Expect a string')
+      })
+    }
+    else if (!isObject(value)) {
+      problem(path, 'Expect an array of strings or query params')
+    }
+  }
+
+  function checkVariables(value: any, path: Path) {
+    if (!Array.isArray(value)) {
+      problem(path, 'Expect an array')
+    }
+    else {
+      value.forEach((v, i) => {
+        if (!isObject(v) || typeof v.name !== 'string' || typeof v.index !== 'number' || v.index < 0) problem([...path, i], 'Expect { name: string, index: number, default?, format? }')
+        else if (v.format !== undefined && typeof v.format !== 'string') problem([...path, i, 'format'], 'Expect a string')
+      })
+    }
+  }
+
+  function checkRegistration(registration: any, type: string, path: Path) {
+    if (!isObject(registration)) return problem(path, 'Expect an object')
+    if (typeof registration.name !== 'string' || !registration.name) problem([...path, 'name'], 'Expect a non-empty string')
+
+    const allowed = ['name', 'opaque', 'query', 'prerequisite', 'metadata']
+    if (type === 'subquery') allowed.push('variables')
+    for (const key of Object.keys(registration)) {
+      const value = registration[key], p = [...path, key]
+      if (allowed.indexOf(key) === -1) problem(p, `Unknown key '${key}' for ${type}`)
+      else if (key === 'opaque' && typeof value !== 'boolean') problem(p, 'Expect a boolean')
+      else if (key === 'query' && !isObject(value)) problem(p, 'Expect an object')
+      else if (key === 'prerequisite') checkPrerequisite(value, p)
+      else if (key === 'metadata' && !isObject(value)) problem(p, 'Expect an object')
+      else if (key === 'variables') checkVariables(value, p)
+    }
+    if (registration.opaque) problem(path, `Opaque ${type} '${registration.name}' cannot be loaded`)
+    else if (!('query' in registration)) problem(path, 'Expect query')
+  }
+
+  function checkShortcut(shortcut: any, path: Path) {
+    if (!isObject(shortcut)) return problem(path, 'Expect an object')
+    if (typeof shortcut.name !== 'string' || !shortcut.name) problem([...path, 'name'], 'Expect a non-empty string')
+
+    const schema = schemas[shortcut.type]
+    if (!schema) return problem([...path, 'type'], `Expect one of ${Object.keys(schemas).join(', ')}`)
+
+    const keys = Object.keys(shortcut)
+    const allowed = [...commonKeys, ...schema.oneOf, ...(schema.required || []), ...(schema.optional || [])]
+    for (const key of keys) {
+      if (allowed.indexOf(key) === -1) problem([...path, key], `Unknown key '${key}' for ${shortcut.type}`)
+    }
+    const given = schema.oneOf.filter(k => k in shortcut)
+    if (given.length !== 1) problem(path, `Expect one and only one of ${schema.oneOf.join(', ')}`)
+    for (const key of schema.required || []) {
+      if (!(key in shortcut)) problem([...path, key], `Expect ${key}`)
+    }
+
+    for (const key of keys) {
+      const value = shortcut[key], p = [...path, key]
+      switch (key) {
+        case 'expression':
+          checkExpression(value, p)
+          break
+        case 'query':
+        case 'fromTable':
+          if (!isObject(value)) problem(p, 'Expect an object')
+          else checkRefs(value, p)
+          break
+        case 'prerequisite':
+          checkPrerequisite(value, p)
+          break
+        case 'metadata':
+          if (!isObject(value)) problem(p, 'Expect an object')
+          break
+        case 'registered':
+          if (typeof value !== 'boolean') problem(p, 'Expect a boolean')
+          break
+        case 'operators':
+        case 'dimensions':
+        case 'metrics':
+        case 'partitionBy':
+          if (!Array.isArray(value) || value.some(o => typeof o !== 'string')) problem(p, 'Expect an array of strings')
+          break
+        case 'direction':
+          if (['ASC', 'DESC'].indexOf(value) === -1) problem(p, 'Expect ASC or DESC')
+          break
+        case 'summaryType':
+          if (!QueryDef.summaryTypes[value]) problem(p, `Expect one of ${Object.keys(QueryDef.summaryTypes).join(', ')}`)
+          break
+        case 'metric':
+        case 'dateSource':
+          if (typeof value !== 'string') problem(p, 'Expect a string')
+          break
+        case 'func':
+          if (['sum', 'rank', 'rowNumber', 'lag', 'lead', 'share'].indexOf(value) === -1) problem(p, 'Expect sum, rank, rowNumber, lag, lead or share')
+          break
+        case 'orderBy':
+          if (!Array.isArray(value) || value.some(o => typeof o !== 'string' && !(isObject(o) && typeof o.key === 'string'))) problem(p, 'Expect an array of strings or { key, direction? }')
+          break
+        case 'period':
+          if (['previousPeriod', 'lastYear'].indexOf(value) === -1) problem(p, 'Expect previousPeriod or lastYear')
+          break
+        case 'offset':
+          if (typeof value !== 'number' || value < 1) problem(p, 'Expect a number >= 1')
+          break
+        case 'percentile':
+          if (typeof value !== 'number' || value < 0 || value > 1) problem(p, 'Expect a number 0 - 1')
+          break
+        case 'unknowns':
+          if (Array.isArray(value)) {
+            value.forEach((v, i) => {
+              if (!Array.isArray(v) || typeof v[0] !== 'string' || typeof v[1] !== 'number') problem([...p, i], 'Expect [string, number]')
+            })
+          }
+          else if (typeof value !== 'boolean' && !isObject(value)) {
+            problem(p, 'Expect a boolean, { noOfUnknowns?, fromTo? } or an array of [string, number]')
+          }
+          break
+        case 'variables':
+          checkVariables(value, p)
+          break
+        case 'cases':
+          if (!Array.isArray(value) || !value.length) {
+            problem(p, 'Expect a non-empty array')
+          }
+          else {
+            value.forEach((c, i) => {
+              if (!isObject(c)) return problem([...p, i], 'Expect an object')
+              if (typeof c.value !== 'string') problem([...p, i, 'value'], 'Expect a string')
+              checkExpression(c.expression, [...p, i, 'expression'])
+              if (c.prerequisite !== undefined) checkPrerequisite(c.prerequisite, [...p, i, 'prerequisite'])
+            })
+          }
+          break
+      }
+    }
+  }
+
+  if (!isObject(json)) {
+    problem([], 'Expect an object')
+    return problems
+  }
+  for (const key of Object.keys(json)) {
+    if (['base', 'registrations', 'shortcuts', 'shortcutOptions', 'policies'].indexOf(key) === -1) problem([key], `Unknown key '${key}'`)
+  }
+  if (!isObject(json.base)) problem(['base'], 'Expect the base query')
+  else if (json.base.opaque) problem(['base'], 'Opaque base query cannot be loaded')
+  if (json.registrations !== undefined) {
+    if (!isObject(json.registrations)) {
+      problem(['registrations'], 'Expect an object')
+    }
+    else {
+      for (const type of Object.keys(json.registrations)) {
+        const list = json.registrations[type]
+        if (['table', 'field', 'subquery', 'groupBy', 'orderBy', 'cte'].indexOf(type) === -1) problem(['registrations', type], `Unknown type '${type}'`)
+        else if (!Array.isArray(list)) problem(['registrations', type], 'Expect an array')
+        else list.forEach((r, i) => checkRegistration(r, type, ['registrations', type, i]))
+      }
+    }
+  }
+  if (json.shortcutOptions !== undefined && !isObject(json.shortcutOptions)) problem(['shortcutOptions'], 'Expect an object')
+  if (json.policies !== undefined && !Array.isArray(json.policies)) problem(['policies'], 'Expect an array')
+  if (json.shortcuts !== undefined) {
+    if (!Array.isArray(json.shortcuts)) problem(['shortcuts'], 'Expect an array')
+    else json.shortcuts.forEach((s, i) => checkShortcut(s, ['shortcuts', i]))
+  }
+  return problems
+}
+
+// replace { $ref: name } with the registered expression
+function resolveRefs(value: any, registered: { [key: string]: any }): any {
+  if (Array.isArray(value)) return value.map(v => resolveRefs(v, registered))
+  if (!isObject(value)) return value
+  if ('$ref' in value) return registered[value.$ref]
+  return Object.keys(value).reduce<any>((r, k) => {
+    r[k] = resolveRefs(value[k], registered)
+    return r
+  }, {})
+}
+
+export function toShortcut({ expression, query, fromTable, cases, ...shortcut }: any): DefaultShortcuts {
+  if (expression) shortcut.expression = re => resolveRefs(expression, re)
+  if (fromTable) shortcut.fromTable = re => resolveRefs(fromTable, re)
+  if (query) shortcut[shortcut.type === 'subquery' ? 'subqueryArg' : 'queryArg'] = re => resolveRefs(query, re)
+  if (cases) shortcut.cases = cases.map(({ expression, ...c }) => ({ ...c, expression: re => resolveRefs(expression, re) }))
+  return shortcut
+}
+
+function parse(source: string | IDefinition): { json: any; problems: IDefinitionProblem[] } {
+  if (typeof source !== 'string') {
+    return { json: source, problems: validate(source).map(({ path, message }) => ({ path: pathToString(path), message })) }
+  }
+
+  const lineCounter = new LineCounter()
+  const document = parseDocument(source, { lineCounter })
+  if (document.errors.length) {
+    return {
+      json: undefined,
+      problems: document.errors.map(({ message, linePos }) => ({
+        path: '',
+        message,
+        line: linePos && linePos[0].line,
+        column: linePos && linePos[0].col
+      }))
+    }
+  }
+
+  const json = document.toJS()
+  const problems = validate(json).map(({ path, message }) => {
+    const result: IDefinitionProblem = { path: pathToString(path), message }
+
+    // closest node available
+    for (let i = path.length; i >= 0; i -= 1) {
+      const node = (i ? document.getIn(path.slice(0, i), true) : document.contents) as Node | undefined
+      if (node && node.range) {
+        const { line, col } = lineCounter.linePos(node.range[0])
+        result.line = line
+        result.column = col
+        break
+      }
+    }
+    return result
+  })
+  return { json, problems }
+}
+
+export function validateDefinition(source: string | IDefinition): IDefinitionProblem[] {
+  return parse(source).problems
+}
+
+// opaque entries cannot be loaded, and policies cannot be skipped, i.e. fail unless every one is re-registered
+export async function loadDefinition<U = any>(source: string | IDefinition, options?: U, { policies = {} }: ILoadDefinitionOptions = {}): Promise<QueryDef> {
+  const { json, problems } = parse(source)
+  if (problems.length) {
+    throw new Error(`Invalid definition:\n${problems.map(({ path, message, line, column }) => {
+      const position = line ? `(${line}:${column}) ` : ''
+      return `${position}${path ? `${path}: ` : ''}${message}`
+    }).join('\n')}`)
+  }
+
+  const missing = (json.policies || []).filter(({ name }) => !policies[name]).map(({ name }) => `'${name}'`)
+  if (missing.length) throw new Error(`Policies ${missing.join(', ')} should be re-registered with ILoadDefinitionOptions.policies`)
+
+  const queryDef = new QueryDef(json.base)
+
+  const registrations = json.registrations || {}
+  for (const type of Object.keys(registrations)) {
+    for (const { name, query, prerequisite, metadata, variables = [] } of registrations[type] as IRegistration[]) {
+      if (type === 'subquery') {
+        const subqueryDef = queryDef.subquery(name, query as Partial<IQuery>, prerequisite, metadata)
+        for (const { name, index, ...options } of variables) subqueryDef.register(name, index, options)
+      }
+      else {
+        queryDef[type](name, query, prerequisite, metadata)
+      }
+    }
+  }
+  for (const { name, table, requires } of json.policies || []) {
+    queryDef.policy(name, policies[name], { table, requires })
+  }
+
+  await queryDef.useDefinitionShortcuts(json.shortcuts || [], options || json.shortcutOptions)
+  return queryDef
+}
@@ -0,0 +1,156 @@
+import { AndExpressions, BinaryExpression, CaseExpression, ColumnExpression, FunctionExpression, IExpression, Value } from '@swivel-admin/node-jql'
+import { QueryDef } from '.'
+import { convertTimezone, currentDate, fiscalExpressions, IFiscalCalendar } from './dates'
+import { IQueryParams } from './queryParams'
+import { IConditionsShortcut } from './shortcuts'
+import { IfNullExpression } from './utils'
+
+function shipmentDateExpressionFn(subqueriesOrEntityType: any | string) {
+  let entityType: string
+  if (typeof subqueriesOrEntityType === 'string') {
+    entityType = subqueriesOrEntityType
+  }
+  else {
+    entityType = subqueriesOrEntityType.entityType && subqueriesOrEntityType.entityType.value
+  }
+
+  return IfNullExpression(
+    new CaseExpression(
+      [
+        {
+          $when: new BinaryExpression(new ColumnExpression(entityType, 'boundTypeCode'), '=', new Value('O')),
+          $then: IfNullExpression(
+            new ColumnExpression(`${entityType}_date`, 'departureDateActual'),
+            IfNullExpression(
+              new ColumnExpression(`${entityType}`, 'departureDateEstimated'),
+              new ColumnExpression(`${entityType}_date`, 'departureDateEstimated')
+            )
+          )
+        },
+        {
+          $when: new BinaryExpression(new ColumnExpression(entityType, 'boundTypeCode'), '=', new Value('I')),
+          $then: IfNullExpression(
+            new ColumnExpression(`${entityType}_date`, 'arrivalDateActual'),
+            IfNullExpression(
+              new ColumnExpression(`${entityType}`, 'arrivalDateEstimated'),
+              new ColumnExpression(`${entityType}_date`, 'arrivalDateEstimated')
+            )
+          )
+        }
+      ],
+      new ColumnExpression(entityType, entityType === 'shipment' ? 'jobDate' : 'createdAt')
+    ),
+    new ColumnExpression(entityType, entityType === 'shipment' ? 'jobDate' : 'createdAt')
+  )
+}
+
+export function parseDateSource(params: IQueryParams, expression: IExpression, dateExpressions: any = {}) {
+  const entityType = params.subqueries && params.subqueries.entityType && params.subqueries.entityType.value
+  if (!entityType) throw new Error('Missing entity type')
+  const dateSource = params.subqueries && params.subqueries.dateSource && params.subqueries.dateSource.value
+  switch (dateSource) {
+    case 'shipmentDate': {
+      if (entityType === 'shipment') expression = dateExpressions.shipmentDate || shipmentDateExpressionFn(entityType)
+      break
+    }
+    case 'departureDateEstimated':
+    case 'arrivalDateEstimated': {
+      expression = dateExpressions[dateSource] || IfNullExpression(new ColumnExpression(`${entityType}_date`, dateSource), expression)
+      break
+    }
+    default: {
+      expression = dateExpressions[dateSource]
+      break
+    }
+  }
+  return convertTimezone(expression, params)
+}
+
+// e.g. MONTH(date) = 1, MONTH(date) = 2, ...
+function dateCases(func: string, values: string[], first = 1, ...args: IExpression[]): IConditionsShortcut['cases'] {
+  return values.map((value, i) => ({
+    value,
+    exprArg: re => params => new BinaryExpression(new FunctionExpression(func, parseDateSource(params, re['date'], re), ...args), '=', new Value(i + first))
+  }))
+}
+
+function division(value: string, moduleTypeCode: string, boundTypeCode: string): IConditionsShortcut['cases'][0] {
+  return {
+    value,
+    exprArg: re => () => new AndExpressions([
+      new BinaryExpression(re['moduleTypeCode'], '=', new Value(moduleTypeCode)),
+      new BinaryExpression(re['boundTypeCode'], '=', new Value(boundTypeCode))
+    ])
+  }
+}
+
+const weeks: string[] = []
+for (let i = 1; i <= 53; i += 1) weeks.push(`W${i}`)
+
+// suffix conditions of the summary metrics
+export const defaultDimensions: { [key: string]: IConditionsShortcut } = {
+  Month: {
+    type: 'conditions',
+    name: 'Month',
+    cases: dateCases('Month', ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'])
+  },
+  Division: {
+    type: 'conditions',
+    name: 'Division',
+    cases: [
+      division('AE', 'AIR', 'O'),
+      division('AI', 'AIR', 'I'),
+      division('SE', 'SEA', 'O'),
+      division('SI', 'SEA', 'I')
+    ]
+  },
+  Quarter: {
+    type: 'conditions',
+    name: 'Quarter',
+    cases: dateCases('QUARTER', ['Q1', 'Q2', 'Q3', 'Q4'])
+  },
+  // ISO week, i.e. WEEK(date, 3)
+  Week: {
+    type: 'conditions',
+    name: 'Week',
+    cases: dateCases('WEEK', weeks, 1, new Value(3))
+  },
+  // WEEKDAY(date) is 0 for Monday
+  Weekday: {
+    type: 'conditions',
+    name: 'Weekday',
+    cases: dateCases('WEEKDAY', ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'], 0)
+  },
+  // relative to the current year
+  Year: {
+    type: 'conditions',
+    name: 'Year',
+    cases: ['ThisYear', 'LastYear'].map((value, i) => ({
+      value,
+      exprArg: re => (params: IQueryParams) => new BinaryExpression(
+        new FunctionExpression('YEAR', parseDateSource(params, re['date'], re)),
+        '=',
+        new Value(currentDate(params, QueryDef.now).getUTCFullYear() - i)
+      )
+    }))
+  }
+}
+
+// FiscalQuarter = (FQ1, ..., FQ4) and FiscalPeriod = (P1, ..., P12)
+export function fiscalDimensions(calendar: IFiscalCalendar): { [key: string]: IConditionsShortcut } {
+  const cases = (unit: 'quarter' | 'period', values: string[]): IConditionsShortcut['cases'] => values.map((value, i) => ({
+    value,
+    exprArg: re => params => new BinaryExpression(fiscalExpressions(parseDateSource(params, re['date'], re), calendar)[unit], '=', new Value(i + 1))
+  }))
+
+  const periods: string[] = []
+  for (let i = 1; i <= 12; i += 1) periods.push(`P${i}`)
+
+  return {
+    FiscalQuarter: { type: 'conditions', name: 'FiscalQuarter', cases: cases('quarter', ['FQ1', 'FQ2', 'FQ3', 'FQ4']) },
+    FiscalPeriod: { type: 'conditions', name: 'FiscalPeriod', cases: cases('period', periods) }
+  }
+}
+
+// dimensions applied if not specified in the options of queryDef.useShortcuts
+export const defaultDimensionNames = ['Month', 'Division']
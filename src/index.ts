@@ -1,12 +1,18 @@
 import debug = require('debug')
 import _ from 'lodash'
-import { AndExpressions, ColumnExpression, GroupBy, IConditionalExpression, IExpression, IGroupBy, IGroupedExpressions, IQuery, IResultColumn, OrderBy, Query, ResultColumn } from '@swivel-admin/node-jql'
-import { ExpressionArg, GroupByArg, Prerequisite, QueryArg, ResultColumnArg, SubqueryArg, IOptions } from './interface'
-import { IQueryParams, FieldParams, GroupByParams, OrderByParams } from './queryParams'
+import { AndExpressions, ColumnExpression, FunctionExpression, GroupBy, IConditionalExpression, IExpression, IGroupBy, IGroupedExpressions, InExpression, IOrderBy, IQuery, IResultColumn, OrderBy, OrExpressions, ParameterExpression, Query, QueryExpression, ResultColumn, Value } from '@swivel-admin/node-jql'
+import { ExpressionArg, GroupByArg, Prerequisite, QueryArg, ResultColumnArg, SubqueryArg, IContribution, IDependency, IDescription, IExplainOptions, IExplanation, IMetadata, IOptions, IRegistration, IValidationProblem } from './interface'
+import { IQueryParams, FieldParams, FilterParams, GroupByParams, HavingParams, ITopNParams, OrderByParams } from './queryParams'
 import { SubqueryDef } from './subquery'
-import { dummyQuery, mergePrerequisite, mergeQuery } from './utils'
+import { ICommonTableExpression, WithQuery } from './cte'
+import { dummyQuery, filterLeaves, filterOperator, IfExpression, mergePrerequisite, mergeQuery, NotExpression, splitClauses } from './utils'
+import { cursorColumn, cursorKeys, decodeCursor, encodeCursor, keysetCondition } from './cursor'
+import { checkOperatorValue, defaultOperators, inferOperator, IOperator } from './operators'
+import { defaultSummaryTypes, SummaryTypeFunc } from './summaryTypes'
+import { applyPolicies, IPolicy, IPolicyOptions, PolicyArg } from './policies'
+import { IDefinition, toShortcut } from './definition'
 import { FixRegexpProcessor, PostProcessor } from './postProcessors'
-import { FieldShortcutFunc, GroupByShortcutFunc, IBaseShortcut, OrderByShortcutFunc, ShortcutFunc, SubqueryShortcutFunc, TableShortcutFunc, IShortcutContext, DefaultShortcuts, DateSourceShortcutFunc, ComboShortcutFunc, ConditionsShortcutFunc, SummaryMetricShortcutFunc } from './shortcuts'
+import { FieldShortcutFunc, GroupByShortcutFunc, IBaseShortcut, OrderByShortcutFunc, ShortcutFunc, SubqueryShortcutFunc, TableShortcutFunc, IShortcutContext, DefaultShortcuts, DateSourceShortcutFunc, ComboShortcutFunc, ConditionsShortcutFunc, SummaryMetricShortcutFunc, DimensionShortcutFunc, DerivedMetricShortcutFunc, PivotShortcutFunc, WindowMetricShortcutFunc, ComparisonShortcutFunc } from './shortcuts'
 
 const log = debug('QueryDef:log')
 const warn = debug('QueryDef:warn')
@@ -25,9 +31,23 @@ export class QueryDef {
     dateSource: DateSourceShortcutFunc,       // (queryDef.field) + (queryDef.subquery -> [date] BETWEEN ? AND ?)
     combo: ComboShortcutFunc,                 // (queryDef.field) + (queryDef.groupBy -> [`group_${field}`]) + (queryDef.subquery -> [field] [operator] ?)
     conditions: ConditionsShortcutFunc,       // FR = (Freehand, R/O), or Month = (Jan, Feb, Mar, ...) => generate (F_cbm, R_cbm) or (Jan_cbm, Feb_cbm, ...) fields
-    summaryMetric: SummaryMetricShortcutFunc  // e.g. cbm, chargeableWeight, etc. define COUNT(*), or SUM(cbm)
+    summaryMetric: SummaryMetricShortcutFunc, // e.g. cbm, chargeableWeight, etc. define COUNT(*), or SUM(cbm)
+    dimension: DimensionShortcutFunc,         // suffix conditions of summaryMetric, e.g. Quarter = (Q1, Q2, Q3, Q4)
+    derivedMetric: DerivedMetricShortcutFunc, // e.g. revenuePerCbm = revenue / NULLIF(cbm, 0), with the conditions as summaryMetric
+    pivot: PivotShortcutFunc,                 // e.g. Carrier = (values resolved at apply time) => generate (OOCL_cbm, COSCO_cbm, ...) field cbmCarrier
+    windowMetric: WindowMetricShortcutFunc,   // e.g. cbmRunningTotal = SUM(cbm) OVER (PARTITION BY ... ORDER BY ...), RANK(), ROW_NUMBER(), LAG / LEAD or share of total
+    comparison: ComparisonShortcutFunc        // e.g. YoY of jobDate => generate (cbm_current, cbm_previous, cbm_delta, cbm_pct_change) field cbmYoY
   }
 
+  // current time for the relative date presets. params.constants.now takes precedence
+  static now: () => Date = () => new Date()
+
+  // aggregate functions of summary metrics
+  static readonly summaryTypes: { [key: string]: SummaryTypeFunc } = { ...defaultSummaryTypes }
+
+  // operators of combo subqueries
+  static readonly operators: { [key: string]: IOperator } = { ...defaultOperators }
+
   /**
    * how to use [conditions],
    * fields: ['cbmMonth'] => fields: ['Jan_cbm', 'Feb_cbm', ...]
@@ -35,7 +55,7 @@ export class QueryDef {
    */
 
   static registerShortcut<T extends IBaseShortcut>(name: string, func: ShortcutFunc<T>) {
-    if (['table', 'field', 'subquery', 'groupBy', 'orderBy', 'dateSource', 'combo', 'conditions', 'summaryMetric'].indexOf(name) === -1) {
+    if (['table', 'field', 'subquery', 'groupBy', 'orderBy', 'dateSource', 'combo', 'conditions', 'summaryMetric', 'dimension', 'derivedMetric', 'pivot', 'windowMetric', 'comparison'].indexOf(name) === -1) {
       QueryDef.shortcuts[name] = func
     }
     else {
@@ -43,12 +63,34 @@ export class QueryDef {
     }
   }
 
+  static registerSummaryType(name: string, func: SummaryTypeFunc) {
+    if (!defaultSummaryTypes[name]) {
+      QueryDef.summaryTypes[name] = func
+    }
+    else {
+      warn(`Default summary type '${name}' cannot be overwritten`)
+    }
+  }
+
+  static registerOperator(name: string, operator: IOperator) {
+    if (!defaultOperators[name]) {
+      QueryDef.operators[name] = operator
+    }
+    else {
+      warn(`Default operator '${name}' cannot be overwritten`)
+    }
+  }
+
   private readonly subqueries: { [key: string]: SubqueryDef } = {}
+  private readonly policies: IPolicy[] = []
 
   // last context
   private context: any
   private options: any
 
+  // declarative shortcuts of the definition loaded, exported back by toDefinition instead of the entries they registered
+  private readonly declarative: { shortcuts: any[]; entries: { [key: string]: SubqueryDef }; options?: any } = { shortcuts: [], entries: {} }
+
   constructor(private readonly base: QueryArg) {}
 
   baseQuery(type: string) {
@@ -63,6 +105,7 @@ export class QueryDef {
     const subquery: string[] = []
     const groupBy: string[] = []
     const orderBy: string[] = []
+    const cte: string[] = []
 
     for (const key of keys) {
       if (key.startsWith('table:')) {
@@ -77,6 +120,9 @@ export class QueryDef {
       else if (key.startsWith('orderBy:')) {
         orderBy.push(key.substr(8))
       }
+      else if (key.startsWith('cte:')) {
+        cte.push(key.substr(4))
+      }
       else {
         subquery.push(key)
       }
@@ -87,8 +133,239 @@ export class QueryDef {
       field: field.sort(),
       subquery: subquery.sort(),
       groupBy: groupBy.sort(),
-      orderBy: orderBy.sort()
+      orderBy: orderBy.sort(),
+      cte: cte.sort()
+    }
+  }
+
+  // the registered subquery of the type, e.g. ('groupBy', 'month') for groupBy:month
+  registration(type: 'table' | 'field' | 'subquery' | 'groupBy' | 'orderBy' | 'cte', name: string): SubqueryDef | undefined {
+    return this.subqueries[type === 'subquery' ? name : `${type}:${name}`]
+  }
+
+  // registered subqueries by type, i.e. 'table' | 'field' | 'subquery' | 'groupBy' | 'orderBy' | 'cte'
+  private entries(): Array<{ type: string; name: string; subquery: SubqueryDef }> {
+    return Object.keys(this.subqueries).sort().map(key => {
+      const pcs = key.split(':')
+      const subquery = this.subqueries[key]
+      if (pcs.length > 1 && ['table', 'field', 'groupBy', 'orderBy', 'cte'].indexOf(pcs[0]) > -1) {
+        return { type: pcs[0], name: pcs.slice(1).join(':'), subquery }
+      }
+      return { type: 'subquery', name: key, subquery }
+    })
+  }
+
+  describe() {
+    const result: { [key: string]: IDescription[] } = {
+      table: [],
+      field: [],
+      subquery: [],
+      groupBy: [],
+      orderBy: [],
+      cte: []
+    }
+    for (const { type, name, subquery } of this.entries()) {
+      result[type].push(subquery.describe(name))
+    }
+    return result
+  }
+
+  // serialize the registered subqueries. the ones defined by functions are marked as opaque
+  // the ones registered by the definition shortcuts are written back as the shortcuts
+  toDefinition(): IDefinition {
+    const registrations: { [key: string]: IRegistration[] } = {
+      table: [],
+      field: [],
+      subquery: [],
+      groupBy: [],
+      orderBy: [],
+      cte: []
+    }
+    for (const { type, name, subquery } of this.entries()) {
+      const key = type === 'subquery' ? name : `${type}:${name}`
+      if (this.declarative.entries[key] !== subquery) registrations[type].push(subquery.toJson(name))
+    }
+
+    const result: IDefinition = {
+      base: typeof this.base === 'function' ? { opaque: true } : new Query(this.base).toJson(),
+      registrations
+    }
+    if (this.declarative.shortcuts.length) {
+      result.shortcuts = JSON.parse(JSON.stringify(this.declarative.shortcuts))
+      if (this.declarative.options) result.shortcutOptions = JSON.parse(JSON.stringify(this.declarative.options))
+    }
+    if (this.policies.length) {
+      result.policies = this.policies.map(({ name, table, requires }) => ({ name, table, requires, opaque: true }))
     }
+    return result
+  }
+
+  validate(params: IQueryParams = {}): IValidationProblem[] {
+    const problems: IValidationProblem[] = []
+    const registered = this.registered()
+
+    function check(list: string[], key: string, path: string, type: string) {
+      if (list.indexOf(key) === -1) problems.push({ path, message: `Unknown ${type} '${key}'` })
+    }
+
+    const fields = params.fields || []
+    for (let i = 0, length = fields.length; i < length; i += 1) {
+      const f = fields[i]
+      if (typeof f === 'string') check(registered.field, f, `fields[${i}]`, 'field')
+    }
+
+    const tables = params.tables || []
+    for (let i = 0, length = tables.length; i < length; i += 1) {
+      check(registered.table, tables[i], `tables[${i}]`, 'table')
+    }
+
+    const checkSubquery = (key: string, value: any, path: string) => {
+      if (registered.subquery.indexOf(key) === -1) {
+        problems.push({ path, message: `Unknown subquery '${key}'` })
+      }
+      else {
+        const message = this.subqueries[key].validate(value)
+        if (message) problems.push({ path, message })
+      }
+    }
+
+    const subqueries = params.subqueries || {}
+    for (const key of Object.keys(subqueries)) {
+      checkSubquery(key, subqueries[key], `subqueries.${key}`)
+    }
+
+    function checkFilter(filter: FilterParams, path: string) {
+      if (!filter || typeof filter !== 'object' || Array.isArray(filter)) {
+        problems.push({ path, message: 'Expect { and: [...] }, { or: [...] }, { not: ... } or registered subqueries' })
+        return
+      }
+      const operator = filterOperator(filter)
+      if (operator === 'and' || operator === 'or') {
+        const list = filter[operator] as FilterParams[]
+        if (!list.length) problems.push({ path: `${path}.${operator}`, message: 'Expect at least 1 filter' })
+        for (let i = 0, length = list.length; i < length; i += 1) checkFilter(list[i], `${path}.${operator}[${i}]`)
+      }
+      else if (operator === 'not') {
+        checkFilter(filter['not'], `${path}.not`)
+      }
+      else {
+        for (const key of Object.keys(filter)) checkSubquery(key, filter[key], `${path}.${key}`)
+      }
+    }
+    if (params.filter !== undefined) checkFilter(params.filter, 'filter')
+
+    const groupBy = params.groupBy || []
+    for (let i = 0, length = groupBy.length; i < length; i += 1) {
+      const g = groupBy[i]
+      if (typeof g === 'string') check(registered.groupBy, g, `groupBy[${i}]`, 'groupBy')
+    }
+
+    if (params.topN) {
+      const { groupBy: g, metric, n } = params.topN
+      if (groupBy.indexOf(g) === -1) problems.push({ path: 'topN.groupBy', message: `Expect '${g}' in groupBy` })
+      check(registered.field, metric, 'topN.metric', 'field')
+      if (typeof n !== 'number' || n < 1) problems.push({ path: 'topN.n', message: 'Expect a number >= 1' })
+    }
+
+    // grouped by the groupBy params, or the base query as build() checks. unknown if the base query is a function
+    const having = params.having || {}
+    const grouped = groupBy.length > 0 || typeof this.base === 'function' || !!this.base.$group
+    if (typeof having !== 'object' || Array.isArray(having)) problems.push({ path: 'having', message: 'Expect { [field]: { operator?, value } }' })
+    else if (Object.keys(having).length && !grouped) problems.push({ path: 'having', message: 'Expect groupBy' })
+    for (const key of typeof having === 'object' && !Array.isArray(having) ? Object.keys(having) : []) {
+      check(registered.field, key, `having.${key}`, 'field')
+      const condition = having[key]
+      if (!condition || typeof condition !== 'object' || Array.isArray(condition)) {
+        problems.push({ path: `having.${key}`, message: 'Expect { operator?, value }, { operator?, from, to } or { operator? }' })
+        continue
+      }
+      const { operator = inferOperator(condition), ...value } = condition
+      if (typeof operator !== 'string') {
+        problems.push({ path: `having.${key}.operator`, message: 'Expect a string' })
+        continue
+      }
+      const registered_ = QueryDef.operators[operator.toLocaleLowerCase()]
+      if (!registered_) problems.push({ path: `having.${key}.operator`, message: `Unknown operator '${operator}'` })
+      else {
+        const message = checkOperatorValue(operator, registered_, value)
+        if (message) problems.push({ path: `having.${key}`, message })
+      }
+    }
+
+    // values of the pivot shortcuts registered
+    const pivots = params.pivots || {}
+    if (typeof pivots !== 'object' || Array.isArray(pivots)) problems.push({ path: 'pivots', message: 'Expect { [pivot]: [...] }' })
+    else {
+      for (const key of Object.keys(pivots)) {
+        check((this.context && this.context.pivots) || [], key, `pivots.${key}`, 'pivot')
+        if (!Array.isArray(pivots[key]) || pivots[key].some(v => v !== null && typeof v === 'object')) {
+          problems.push({ path: `pivots.${key}`, message: 'Expect an array of values' })
+        }
+      }
+    }
+
+    const ctes = params.ctes || []
+    for (let i = 0, length = ctes.length; i < length; i += 1) {
+      check(registered.cte, ctes[i], `ctes[${i}]`, 'cte')
+    }
+
+    const sorting = params.sorting ? Array.isArray(params.sorting) ? params.sorting : [params.sorting] : []
+    for (let i = 0, length = sorting.length; i < length; i += 1) {
+      const o = sorting[i]
+      if (typeof o === 'string') check(registered.orderBy, o, `sorting[${i}]`, 'orderBy')
+      else if ('key' in o) check(registered.orderBy, o.key, `sorting[${i}].key`, 'orderBy')
+    }
+
+    return problems
+  }
+
+  // keys requested directly in the query params but not allowed for the role. unregistered fields are not allowed either
+  // neither are the raw columns, group by and order by expressions, and conditions, which carry no roles
+  private forbidden(params: IQueryParams, role: string): string[] {
+    const result: string[] = []
+    const check = (key: string, registeredOnly = false) => {
+      const subquery = this.subqueries[key]
+      if ((subquery ? !subquery.allows(role) : !registeredOnly) && result.indexOf(key) === -1) result.push(key)
+    }
+
+    const fields = params.fields || []
+    for (let i = 0, length = fields.length; i < length; i += 1) {
+      const f = fields[i]
+      if (typeof f === 'string') check(`field:${f}`)
+      else result.push(`fields[${i}]`)
+    }
+    for (const t of params.tables || []) {
+      check(`table:${t}`, true)
+    }
+    for (const key of Object.keys(params.subqueries || {})) {
+      check(key, true)
+    }
+    for (const { key } of filterLeaves(params.filter)) {
+      check(key, true)
+    }
+    const groupBy = params.groupBy || []
+    for (let i = 0, length = groupBy.length; i < length; i += 1) {
+      const g = groupBy[i]
+      if (typeof g === 'string') check(`groupBy:${g}`)
+      else result.push(`groupBy[${i}]`)
+    }
+    for (const key of Object.keys(params.having || {})) {
+      check(`field:${key}`, true)
+    }
+    if (params.topN) check(`field:${params.topN.metric}`, true)
+    for (const c of params.ctes || []) {
+      check(`cte:${c}`, true)
+    }
+    const sorting = params.sorting ? Array.isArray(params.sorting) ? params.sorting : [params.sorting] : []
+    for (let i = 0, length = sorting.length; i < length; i += 1) {
+      const o = sorting[i]
+      if (typeof o === 'string') check(`orderBy:${o}`)
+      else if ('key' in o) check(`orderBy:${o.key}`)
+      else result.push(`sorting[${i}]`)
+    }
+    if (params.conditions) result.push('conditions')
+
+    return result
   }
 
   private commonFunc<T>(funcName: string, prefix = funcName): (...args: any[]) => SubqueryDef {
@@ -100,6 +377,7 @@ export class QueryDef {
   
       let name = args[0] as string, arg = args[1] as T
       let prerequisite: Prerequisite = []
+      let metadata: IMetadata | undefined
       if (args[2]) {
         if (typeof args[2] !== 'string') {
           prerequisite = args[2] as Prerequisite
@@ -109,6 +387,7 @@ export class QueryDef {
           prerequisite = args.slice(2) as string[]
         }
       }
+      if (typeof args[2] !== 'string') metadata = args[3] as IMetadata
       if (!name) throw new Error(`Missing ${funcName} name`)
       if (name.endsWith(':')) throw new Error(`Invalid ${funcName} name: ${name}`)
 
@@ -116,7 +395,7 @@ export class QueryDef {
       // always overwrite
       if (this.subqueries[name]) warn(`${name} overwritten`)
       try{
-        return this.subqueries[name] = new SubqueryDef(arg, prerequisite)
+        return this.subqueries[name] = new SubqueryDef(arg, prerequisite, metadata)
       }
       finally {
         log(`${name} registered`)
@@ -124,53 +403,73 @@ export class QueryDef {
     }
   }
 
-  subquery(overwrite: boolean, name: string, arg: SubqueryArg, prerequisite?: Prerequisite): SubqueryDef
+  // always applied, regardless of IOptions
+  policy(name: string, arg: PolicyArg, options: IPolicyOptions = {}): QueryDef {
+    if (!name) throw new Error('Missing policy name')
+    const index = this.policies.findIndex(p => p.name === name)
+    if (index > -1) {
+      warn(`policy:${name} overwritten`)
+      this.policies.splice(index, 1)
+    }
+    this.policies.push({ ...options, name, arg })
+    log(`policy:${name} registered`)
+    return this
+  }
+
+  subquery(overwrite: boolean, name: string, arg: SubqueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): SubqueryDef
   subquery(overwrite: boolean, name: string, arg: SubqueryArg, ...companion: string[]): SubqueryDef
-  subquery(name: string, arg: SubqueryArg, prerequisite?: Prerequisite): SubqueryDef
+  subquery(name: string, arg: SubqueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): SubqueryDef
   subquery(name: string, arg: SubqueryArg, ...companion: string[]): SubqueryDef
   subquery(...args: any[]): SubqueryDef {
     return this.commonFunc<SubqueryArg>('subquery', '')(...args)
   }
 
-  field(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  field(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   field(overwrite: boolean, name: string, arg: QueryArg, ...companion: string[]): QueryDef
-  field(name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  field(name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   field(name: string, arg: QueryArg, ...companion: string[]): QueryDef
   field(...args: any[]): QueryDef {
     this.commonFunc<QueryArg>('field')(...args)
     return this
   }
 
-  table(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  table(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   table(overwrite: boolean, name: string, arg: QueryArg, ...companion: string[]): QueryDef
-  table(name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  table(name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   table(name: string, arg: QueryArg, ...companion: string[]): QueryDef
   table(...args: any[]): QueryDef {
     this.commonFunc<QueryArg>('table')(...args)
     return this
   }
 
-  groupBy(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  groupBy(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   groupBy(overwrite: boolean, name: string, arg: QueryArg, ...companion: string[]): QueryDef
-  groupBy(name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  groupBy(name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   groupBy(name: string, arg: QueryArg, ...companion: string[]): QueryDef
   groupBy(...args: any[]): QueryDef {
     this.commonFunc<QueryArg>('groupBy')(...args)
     return this
   }
 
-  orderBy(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  orderBy(overwrite: boolean, name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   orderBy(overwrite: boolean, name: string, arg: QueryArg, ...companion: string[]): QueryDef
-  orderBy(name: string, arg: QueryArg, prerequisite?: Prerequisite): QueryDef
+  orderBy(name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   orderBy(name: string, arg: QueryArg, ...companion: string[]): QueryDef
   orderBy(...args: any[]): QueryDef {
     this.commonFunc<QueryArg>('orderBy')(...args)
     return this
   }
 
-  groupField(overwrite: boolean, name: string, arg: ExpressionArg, prefix: string, prerequisite?: Prerequisite): QueryDef
+  // register common table expression, emitted in WITH if required by the prerequisites, e.g. ['cte:latestStatus']
+  // the query is referred by name in the other registrations, e.g. { $from: { table: 'latestStatus', $as: 'status' } }
+  cte(name: string, arg: QueryArg, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef {
+    this.commonFunc<QueryArg>('cte')(name, arg, prerequisite, metadata)
+    return this
+  }
+
+  groupField(overwrite: boolean, name: string, arg: ExpressionArg, prefix: string, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   groupField(overwrite: boolean, name: string, arg: ExpressionArg, prefix: string, ...companion: string[]): QueryDef
-  groupField(name: string, arg: ExpressionArg, prefix: string, prerequisite?: Prerequisite): QueryDef
+  groupField(name: string, arg: ExpressionArg, prefix: string, prerequisite?: Prerequisite, metadata?: IMetadata): QueryDef
   groupField(name: string, arg: ExpressionArg, prefix: string, ...companion: string[]): QueryDef
   groupField(...args: any[]): QueryDef {
     if (typeof args[0] === 'boolean'|| (typeof args[0] !== 'string' && typeof args[1] === 'string')) {
@@ -189,6 +488,7 @@ export class QueryDef {
         prerequisite = args.slice(3) as string[]
       }
     }
+    const metadata = typeof args[3] !== 'string' ? args[4] as IMetadata : undefined
     if (!name) throw new Error('Missing group field name')
 
     async function get(arg: ExpressionArg, params: IQueryParams) {
@@ -212,7 +512,8 @@ export class QueryDef {
         }
         return { $select: [resultColumn] } as Partial<IQuery>
       },
-      prerequisite
+      prerequisite,
+      metadata
     )
     this.groupBy(
       name,
@@ -225,7 +526,8 @@ export class QueryDef {
         }
         return { $group: groupBy } as Partial<IQuery>
       },
-      prerequisite
+      prerequisite,
+      metadata
     )
 
     return this
@@ -280,6 +582,18 @@ export class QueryDef {
     return this.groupField(args[0] as string, args[1] as ExpressionArg, 'group_', args.slice(2))
   }
 
+  // shortcuts of IDefinition, i.e. expressions in node-jql JSON with { $ref }, which toDefinition writes back
+  async useDefinitionShortcuts<U = any>(shortcuts: any[], options?: U): Promise<QueryDef> {
+    const before = { ...this.subqueries }
+    await this.useShortcuts(shortcuts.map(toShortcut), options)
+    for (const key of Object.keys(this.subqueries)) {
+      if (before[key] !== this.subqueries[key]) this.declarative.entries[key] = this.subqueries[key]
+    }
+    this.declarative.shortcuts.push(...JSON.parse(JSON.stringify(shortcuts)))
+    if (options) this.declarative.options = JSON.parse(JSON.stringify(options))
+    return this
+  }
+
   async useShortcuts<T extends IBaseShortcut = IBaseShortcut, U = any>(shortcuts: Array<DefaultShortcuts | T>, options?: U): Promise<QueryDef> {
     const context: IShortcutContext = this.context = this.context || {}
     options = this.options = options || this.options || {}
@@ -322,8 +636,72 @@ export class QueryDef {
   }
 
   async apply(params: IQueryParams = {}, options: IOptions = {}): Promise<Query> {
+    const prepared = await this.prepare(params, options)
+    return this.withCtes(await this.build(prepared.params, options), prepared.params)
+  }
+
+  // build the cursor of a result row for the next page. the row should contain the cursor columns, i.e. applied with options.withCursor
+  async cursor(params: IQueryParams = {}, options: IOptions = {}): Promise<(row: any) => string> {
+    const prepared = await this.prepare(params, options)
+    const keys = cursorKeys((prepared.params.sorting || []) as OrderByParams[])
+    return row => encodeCursor(keys, keys.map((k, i) => {
+      const column = cursorColumn(i)
+      if (!(column in row)) throw new Error(`Missing column '${column}' for cursor. apply with options.withCursor`)
+      return row[column]
+    }))
+  }
+
+  // total number of rows the page query would return without LIMIT
+  async applyCount(params: IQueryParams = {}, options: IOptions = {}): Promise<Query> {
+    const { limit, cursor, ...params_ } = params
+    const prepared = await this.prepare(params_, options)
+    const query = await this.build(prepared.params, options)
+    delete query.$order
+    delete query.$limit
+
+    // counted over the page query as a derived table, as aggregate or window fields change the no. of rows without $group
+    // the implicit * is replaced unless DISTINCT, so that the joined tables do not give duplicate column names
+    const $select = query.$select as IResultColumn[] | undefined
+    if (!query.$distinct && (!$select || !$select.length)) query.$select = [new ResultColumn(new Value(1), 'count_row')]
+    return this.withCtes({
+      $select: new ResultColumn(new FunctionExpression('COUNT', new ColumnExpression('*')), 'count'),
+      $from: { table: query, $as: 'count_query' }
+    }, prepared.params)
+  }
+
+  async explain(params: IQueryParams = {}, options: IExplainOptions = {}): Promise<IExplanation> {
+    const { params: params_, dependencies } = await this.prepare(params, options)
+    const contributions: IContribution[] = []
+    const query = await this.withCtes(await this.build(params_, options, contributions), params_, contributions)
+
+    const result: IExplanation = { dependencies, params: params_, contributions, query }
+    // a line per clause, after the comment of its contributions, e.g. -- field:carrier, field:cbm
+    if (options.annotate) {
+      result.sql = splitClauses(query.toString(options.annotate as any)).reduce<string[]>((r, { clause, sql }) => {
+        const keys = contributions.filter(c => c.clause === clause).map(c => c.key)
+        if (keys.length) r.push(`-- ${keys.filter((k, i) => keys.indexOf(k) === i).join(', ')}`)
+        r.push(sql)
+        return r
+      }, []).join('\n')
+    }
+    return result
+  }
+
+  // resolve prerequisites and normalize query params
+  private async prepare(params: IQueryParams, options: IOptions): Promise<{ params: IQueryParams; dependencies: IDependency[] }> {
     if (options.withDefault === undefined) options.withDefault = true
-    const { withDefault, skipDefFields } = options
+    const { withDefault, strict, access } = options
+
+    if (strict) {
+      const problems = this.validate(params)
+      if (problems.length) throw new Error(`Invalid query params: ${problems.map(({ path, message }) => `${path}: ${message}`).join('; ')}`)
+    }
+
+    // companions are not checked
+    if (access) {
+      const forbidden = this.forbidden(params, access.role)
+      if (forbidden.length) throw new Error(`Role '${access.role}' is not allowed to access ${forbidden.map(k => `'${k}'`).join(', ')}`)
+    }
 
     // query params before preparation
     {
@@ -334,16 +712,32 @@ export class QueryDef {
 
     // prepare query params
     params = _.cloneDeep(params)
+    if (options.timezone && !(params.constants && params.constants.timezone)) params.constants = { ...params.constants, timezone: options.timezone }
     if (!params.subqueries) params.subqueries = {}
     if (params.sorting && !Array.isArray(params.sorting)) params.sorting = [params.sorting]
 
     const allCompanions: string[] = [], depandCount: { [key: string]: number } = {}, subqueries = this.subqueries
+    const dependencies: { [key: string]: IDependency } = {}
 
-    async function register(key: string, registered: string[] = []) {
+    // filter leaves are applied within the filter tree, so only their prerequisites are companions
+    async function register(key: string, registered: string[] = [], self = true) {
       if (subqueries[key]) {
-        if (allCompanions.indexOf(key) === -1) allCompanions.push(key)
-        const count = registered.length
-        depandCount[key] = depandCount[key] === undefined ? count : depandCount[key] + count
+        if (self && allCompanions.indexOf(key) === -1) allCompanions.push(key)
+
+        const dependency = dependencies[key] = dependencies[key] || { key, direct: false, depth: 0, requestedBy: [], prerequisites: [] }
+        const parent = registered[registered.length - 1]
+        if (!parent) {
+          dependency.direct = true
+        }
+        else {
+          if (dependency.requestedBy.indexOf(parent) === -1) dependency.requestedBy.push(parent)
+          if (dependencies[parent].prerequisites.indexOf(key) === -1) dependencies[parent].prerequisites.push(key)
+        }
+
+        if (self) {
+          const count = registered.length
+          depandCount[key] = depandCount[key] === undefined ? count : depandCount[key] + count
+        }
         registered = [...registered, key]
 
         const prerequisite = await subqueries[key].applyPrerequisite(params)
@@ -376,21 +770,31 @@ export class QueryDef {
     await checkPrerequisite('subqueries')
     await checkPrerequisite('groupBy', 'groupBy')
     await checkPrerequisite('sorting', 'orderBy')
+    await checkPrerequisite('ctes', 'cte')
+    for (const { key } of filterLeaves(params.filter)) {
+      await register(key, [], false)
+    }
+    // the fields are not selected, while their joins are required
+    for (const key of Object.keys(params.having || {})) {
+      await register(`field:${key}`, [], false)
+    }
+    if (params.topN) await register(`field:${params.topN.metric}`, [], false)
 
     allCompanions.sort((l, r) => {
       const lc = depandCount[l]
       const rc = depandCount[r]
       return lc < rc ? 1 : lc > rc ? -1 : 0
     })
+    for (const key of allCompanions) dependencies[key].depth = depandCount[key]
 
-    const companions = allCompanions.reduce<{ field: string[]; table: string[]; subquery: string[]; groupBy: string[]; orderBy: string[] }>((r, k) => {
+    const companions = allCompanions.reduce<{ field: string[]; table: string[]; subquery: string[]; groupBy: string[]; orderBy: string[]; cte: string[] }>((r, k) => {
       const pcs = k.split(':')
       let type = 'subquery'
-      if (['field', 'table', 'groupBy', 'orderBy'].indexOf(pcs[0]) > -1) type = pcs[0]
+      if (['field', 'table', 'groupBy', 'orderBy', 'cte'].indexOf(pcs[0]) > -1) type = pcs[0]
       if (!r[type]) r[type] = []
       r[type].push(pcs[type === 'subquery' ? 0 : 1])
       return r
-    }, { field: [], table: [], subquery: [], groupBy: [], orderBy: [] })
+    }, { field: [], table: [], subquery: [], groupBy: [], orderBy: [], cte: [] })
 
     if (!params.fields) params.fields = []
     params.fields = params.fields.reduce<FieldParams[]>((r, f) => {
@@ -423,6 +827,9 @@ export class QueryDef {
       return r
     }, params.sorting as OrderBy[])
 
+    // in the order of the dependencies
+    params.ctes = companions.cte
+
     if (withDefault && this.subqueries.default) {
       params.subqueries.default = true
     }
@@ -434,16 +841,29 @@ export class QueryDef {
       log(`params after: ${JSON.stringify(params_)}`)
     }
 
+    const filtered = Object.keys(dependencies).filter(key => allCompanions.indexOf(key) === -1)
+    return { params, dependencies: [...allCompanions, ...filtered].map(key => dependencies[key]) }
+  }
+
+  // build the query from the prepared query params
+  private async build(params: IQueryParams, options: IOptions, contributions?: IContribution[]): Promise<IQuery> {
+    const { skipDefFields } = options
+    const { fields = [], tables = [], subqueries = {}, groupBy = [] } = params
+    const sorting = (params.sorting || []) as OrderByParams[]
+    const trace = (key: string, ...clauses: string[]) => {
+      if (contributions) contributions.push(...clauses.map(clause => ({ key, clause })))
+    }
+
     const base: IQuery = dummyQuery(typeof this.base === 'function' ? await this.base(params) : this.base)
 
     if (params.distinct) {
       base.$distinct = true
     }
 
-    if (params.fields.length) {
+    if (fields.length) {
       const $select = (base.$select = [] as IResultColumn[])
-      for (const f of params.fields) {
-        let fields: IResultColumn[] = []
+      for (const f of fields) {
+        let columns: IResultColumn[] = []
 
         // string
         if (typeof f === 'string') {
@@ -453,50 +873,91 @@ export class QueryDef {
             const registered = this.subqueries[key]
             const { $distinct, $select } = await registered.apply(params)
             if ($distinct) base.$distinct = true
-            fields = dummyQuery({ $select }).$select
-            if (!fields.length) warn(`No result columns for '${key}'`)
+            columns = dummyQuery({ $select }).$select
+            if (!columns.length) warn(`No result columns for '${key}'`)
+            trace(key, '$select')
           }
           else if (!skipDefFields) {
-            fields = [{ expression: new ColumnExpression(f) }]
+            columns = [{ expression: new ColumnExpression(f) }]
           }
         }
         // [string, string]
         else if (Array.isArray(f)) {
-          fields = [{ expression: new ColumnExpression(f[0], f[1]) }]
+          columns = [{ expression: new ColumnExpression(f[0], f[1]) }]
         }
         // { column, $as? }
         else if ('column' in f) {
-          fields = [{
+          columns = [{
             expression: new ColumnExpression(f.column[0], f.column[1]),
             $as: f.$as
           }]
         }
         // IResultColumn
         else {
-          fields = [f]
+          columns = [f]
         }
 
-        $select.push(...fields.map(f => new ResultColumn(f)))
+        $select.push(...columns.map(c => new ResultColumn(c)))
       }
     }
 
-    if (params.tables.length) {
-      for (const t of params.tables) {
+    if (tables.length) {
+      for (const t of tables) {
         const key = `table:${t}`
         if (this.subqueries[key]) {
           log(`Apply ${key}`)
           const { $from, $where } = await this.subqueries[key].apply(params)
-          mergeQuery(base, dummyQuery({ $from, $where }))
+          const table = dummyQuery({ $from, $where })
+          mergeQuery(base, table)
+          trace(key, ...clausesOf(table))
         }
       }
     }
 
-    for (const s of Object.keys(params.subqueries)) {
+    for (const s of Object.keys(subqueries)) {
       if (this.subqueries[s]) {
         const subquery = dummyQuery(await this.subqueries[s].apply(s, params))
         mergeQuery(base, subquery)
+        trace(s, ...clausesOf(subquery))
+      }
+    }
+
+    // OR / NOT over the registered subqueries
+    const filter = async(node: FilterParams): Promise<IConditionalExpression | undefined> => {
+      const operator = filterOperator(node)
+      if (operator === 'not') {
+        const condition = await filter(node['not'])
+        return condition && NotExpression(condition)
+      }
+
+      let conditions: IConditionalExpression[] = []
+      if (operator === 'and' || operator === 'or') {
+        for (const f of node[operator] as FilterParams[]) {
+          const condition = await filter(f)
+          if (condition) conditions.push(condition)
+        }
+      }
+      else {
+        for (const key of Object.keys(node)) {
+          if (this.subqueries[key]) {
+            log(`Apply ${key} in filter`)
+            const { $where, ...query } = dummyQuery(await this.subqueries[key].apply(key, { ...params, subqueries: { ...subqueries, [key]: node[key] } }))
+            // joins required by the subquery
+            mergeQuery(base, query)
+            if ($where) conditions = conditions.concat($where)
+            trace(key, ...clausesOf(query), '$where')
+          }
+        }
       }
+
+      if (conditions.length < 2) return conditions[0]
+      return operator === 'or' ? new OrExpressions(conditions) : new AndExpressions(conditions)
+    }
+    if (params.filter) {
+      const condition = await filter(params.filter)
+      if (condition) mergeQuery(base, { $where: condition })
     }
+
     if (params.conditions) {
       if (!base.$where) {
         base.$where = params.conditions
@@ -509,19 +970,21 @@ export class QueryDef {
       }
     }
 
-    if (params.groupBy.length) {
+    if (groupBy.length) {
       const $group = (base.$group = (base.$group || { expressions: [] }) as IGroupBy)
       const expressions = $group.expressions as IExpression[]
       const $having = $group.$having ? [$group.$having as IConditionalExpression] : []
+      const groups: { [key: string]: IExpression[] } = {}
 
       function apply({ expressions: e, $having: h }: IGroupBy) {
         expressions.push(...Array.isArray(e) ? e : [e])
         if (h) $having.push(...Array.isArray(h) ? h : [h])
       }
 
-      for (const g of params.groupBy) {
+      for (const g of groupBy) {
         // string
         if (typeof g === 'string') {
+          const start = expressions.length
           const key = `groupBy:${g}`
           if (this.subqueries[key]) {
             log(`Apply ${key}`)
@@ -529,10 +992,12 @@ export class QueryDef {
             const group = dummyQuery({ $group }).$group
             if (group) apply(group)
             else warn(`No group by expressions returned from '${key}'`)
+            trace(key, '$group')
           }
           else {
             expressions.push(new ColumnExpression(g))
           }
+          groups[g] = expressions.slice(start)
         }
         // IGroupBy
         else {
@@ -540,7 +1005,36 @@ export class QueryDef {
         }
       }
 
+      // top n groups by the metric, with the rest as one row
+      if (params.topN) {
+        await this.topN(params, options, base, expressions, groups)
+        trace(`field:${params.topN.metric}`, '$group')
+      }
+
       base.$group = { expressions, $having }
+
+      // subtotals by GROUP BY ... WITH ROLLUP, with GROUPING() indicator of every groupBy, i.e. grouping_[name] is 1 for the subtotal rows
+      if (params.rollup && expressions.length) {
+        // the underlying expressions instead of the select aliases e.g. group_ of groupField, which GROUPING() cannot refer to
+        const aliases: { [key: string]: IExpression } = {}
+        for (const { expression, $as } of (base.$select || []) as IResultColumn[]) {
+          if ($as) aliases[$as] = expression
+        }
+        const underlying = (e: IExpression) => e instanceof ColumnExpression && !e.table && aliases[e.name] ? aliases[e.name] : e
+
+        const rollup = expressions.map(underlying)
+        rollup[rollup.length - 1] = new ParameterExpression('', rollup[rollup.length - 1], 'WITH ROLLUP')
+        base.$group = { expressions: rollup, $having }
+        mergeQuery(base, { $select: Object.keys(groups).map(g => new ResultColumn(new FunctionExpression('GROUPING', ...groups[g].map(underlying)), `grouping_${g}`)) })
+      }
+    }
+
+    if (params.having && Object.keys(params.having).length) {
+      if (!base.$group) throw new Error('HAVING requires groupBy')
+      const $group = base.$group as IGroupBy
+      const $having = $group.$having ? Array.isArray($group.$having) ? $group.$having : [$group.$having] : []
+      $group.$having = [...$having, ...await this.having(params.having, params)]
+      for (const key of Object.keys(params.having)) trace(`field:${key}`, '$group')
     }
 
     if (!base.$order) base.$order = []
@@ -548,7 +1042,13 @@ export class QueryDef {
     if (typeof $order === 'string') base.$order = $order = [new OrderBy($order)]
     if (!Array.isArray($order)) base.$order = $order = [$order]
 
-    for (let o of params.sorting) {
+    // keyset pagination
+    const paging = !!(params.cursor || options.withCursor)
+    const keys = paging ? cursorKeys(sorting) : []
+    if (paging && $order.length) throw new Error('Cursor pagination does not support ORDER BY defined out of sorting')
+    const keyset: IOrderBy[] = []
+
+    for (let o of sorting) {
       let direction: 'ASC' | 'DESC' = 'ASC'
       if (typeof o !== 'string' && 'key' in o) {
         direction = o.direction || 'ASC'
@@ -563,12 +1063,17 @@ export class QueryDef {
           const order = dummyQuery({ $order: value }).$order
           if (order) {
             if (order.length === 1) order[0].order = direction
+            else if (paging) throw new Error(`Cursor pagination requires exactly 1 order by expression from '${key}'`)
             $order.push(...order)
+            keyset.push(...order)
+            trace(key, '$order')
           }
           else throw new Error(`No order by expressions returned from '${key}'`)
         }
         else {
-          $order.push(new OrderBy(o, direction))
+          const order = new OrderBy(o, direction)
+          $order.push(order)
+          keyset.push(order)
         }
       }
       // IOrderBy
@@ -577,30 +1082,162 @@ export class QueryDef {
       }
     }
 
+    // the sorting expressions selected for queryDef.cursor, as the registered ones are not result columns
+    // the implicit * is kept ahead, as dummyQuery leaves $select empty for it
+    if (paging) {
+      const $select = base.$select as IResultColumn[] | undefined
+      if (!$select || !$select.length) base.$select = [new ResultColumn(new ColumnExpression('*'))]
+      mergeQuery(base, { $select: keyset.map((o, i) => new ResultColumn(o.expression, cursorColumn(i))) })
+    }
+
+    if (params.cursor) {
+      const condition = keysetCondition(keyset, decodeCursor(params.cursor, keys))
+      if (base.$group) {
+        const $group = base.$group as IGroupBy
+        const $having = $group.$having ? Array.isArray($group.$having) ? $group.$having : [$group.$having] : []
+        $group.$having = [...$having, condition]
+      }
+      else {
+        mergeQuery(base, { $where: condition })
+      }
+    }
+
     if (params.limit) {
       if (typeof params.limit === 'number') params.limit = { $limit: params.limit }
+      // offset is replaced by the cursor
+      if (params.cursor) params.limit = { $limit: params.limit.$limit }
       base.$limit = params.limit
     }
 
-    return new Query(QueryDef.postProcessors.reduce((r, p) => p(r), base))
+    await applyPolicies(base, this.policies, params)
+
+    return QueryDef.postProcessors.reduce((r, p) => p(r), base)
+  }
+
+  // WITH the CTEs required. the policies of the tables are applied to them as the nested queries
+  private async withCtes(query: IQuery, params: IQueryParams, contributions?: IContribution[]): Promise<Query> {
+    const ctes: ICommonTableExpression[] = []
+    for (const name of params.ctes || []) {
+      const key = `cte:${name}`
+      if (!this.subqueries[key]) throw new Error(`Unknown cte '${name}'`)
+      log(`Apply ${key}`)
+      const cte = await applyPolicies(dummyQuery(await this.subqueries[key].apply(params)), this.policies, params, true)
+      ctes.push({ name, query: new Query(QueryDef.postProcessors.reduce((r, p) => p(r), cte)) })
+      if (contributions) contributions.push({ key, clause: '$with' })
+    }
+    return ctes.length ? new WithQuery(query, ctes) : new Query(query)
+  }
+
+  // the aggregate expressions of the registered fields compared
+  private async having(having: HavingParams, params: IQueryParams): Promise<IConditionalExpression[]> {
+    const result: IConditionalExpression[] = []
+    for (const key of Object.keys(having)) {
+      const expression = await this.fieldExpression(key, params, 'having')
+      const { operator = inferOperator(having[key]), ...value } = having[key]
+      const name = operator.toLocaleLowerCase()
+      const registered = QueryDef.operators[name]
+      if (!registered) throw new Error(`Unknown operator '${operator}'`)
+      const message = checkOperatorValue(name, registered, value)
+      if (message) throw new Error(message)
+      result.push(registered.build(expression, value, params))
+    }
+    return result
+  }
+
+  // the expression of the registered field, i.e. the only result column or the one named as the field
+  private async fieldExpression(key: string, params: IQueryParams, usage: string): Promise<IExpression> {
+    const field = this.subqueries[`field:${key}`]
+    if (!field) throw new Error(`Unknown field '${key}' in ${usage}`)
+    const columns = dummyQuery({ $select: (await field.apply(params)).$select }).$select
+    const column = columns.length === 1 ? columns[0] : columns.find(({ $as }) => $as === key)
+    if (!column) throw new Error(`Field '${key}' in ${usage} should have exactly 1 result column or the one named '${key}'`)
+    return column.expression
+  }
+
+  // IF(expression IN (top n by the metric), expression, 'Others') in place of the group by expression and the column selected
+  private async topN(params: IQueryParams, options: IOptions, base: IQuery, expressions: IExpression[], groups: { [key: string]: IExpression[] }) {
+    const { groupBy: name, metric, n, othersLabel = 'Others' } = params.topN as ITopNParams
+    if (!groups[name]) throw new Error(`topN requires '${name}' in groupBy`)
+    if (typeof n !== 'number' || n < 1) throw new Error('topN requires n >= 1')
+
+    // ranked over all the rows filtered, regardless of the other groupBy
+    const { topN, fields, groupBy, having, rollup, sorting, limit, cursor, ...rest } = params
+    const rankParams: IQueryParams = { ...rest, fields: [], groupBy: [name] }
+
+    let key: IExpression = new ColumnExpression(name)
+    const groupByDef = this.subqueries[`groupBy:${name}`]
+    if (groupByDef) {
+      const { $group } = dummyQuery({ $group: (await groupByDef.apply(rankParams)).$group })
+      const keys = $group ? Array.isArray($group.expressions) ? $group.expressions : [$group.expressions] : []
+      if (keys.length !== 1) throw new Error(`topN requires exactly 1 group by expression from 'groupBy:${name}'`)
+      key = keys[0]
+    }
+    const value = await this.fieldExpression(metric, rankParams, 'topN')
+
+    const rank = await this.build(rankParams, options)
+    rank.$select = [new ResultColumn(key, 'topN_key')]
+    rank.$order = [new OrderBy(value, 'DESC'), new OrderBy(key, 'ASC')]
+    rank.$limit = { $limit: n }
+    delete rank.$distinct
+
+    // derived table, as LIMIT is not supported in IN subquery
+    const condition = new InExpression(key, false, new QueryExpression(new Query({
+      $select: [new ResultColumn(new ColumnExpression('topN', 'topN_key'))],
+      $from: { table: rank, $as: 'topN' }
+    })))
+    const bucket = IfExpression(condition, key, new Value(othersLabel))
+
+    for (let i = 0, length = expressions.length; i < length; i += 1) {
+      if (groups[name].indexOf(expressions[i]) > -1) expressions[i] = bucket
+    }
+    groups[name] = [bucket]
+    expressions.splice(0, expressions.length, ...expressions.filter((e, i) => e !== bucket || expressions.indexOf(bucket) === i))
+
+    // e.g. carrierCode or group_carrierCode of groupField
+    base.$select = (base.$select as IResultColumn[]).map(c => c.$as === name || c.$as === `group_${name}` ? new ResultColumn(bucket, c.$as) : c)
+
+    // the top n descendingly, then Others
+    if (!sorting || !(sorting as OrderByParams[]).length) {
+      base.$order = [new OrderBy(IfExpression(condition, new Value(0), new Value(1))), new OrderBy(value, 'DESC')]
+    }
   }
 
   clone(): QueryDef {
     const queryDef = new QueryDef(typeof this.base === 'function' ? this.base : new Query(this.base))
     for (const name of Object.keys(this.subqueries)) {
       queryDef.subqueries[name] = this.subqueries[name].clone()
+      if (this.declarative.entries[name] === this.subqueries[name]) queryDef.declarative.entries[name] = queryDef.subqueries[name]
     }
+    queryDef.declarative.shortcuts.push(...this.declarative.shortcuts)
+    if (this.context && this.context.pivots) queryDef.context = { pivots: [...this.context.pivots] }
+    queryDef.declarative.options = this.declarative.options
+    queryDef.policies.push(...this.policies.map(p => ({ ...p, requires: p.requires && [...p.requires] })))
     return queryDef
   }
 }
 
+function clausesOf(query: Partial<IQuery>): string[] {
+  return ['$select', '$from', '$where', '$group', '$order', '$limit'].filter(clause => {
+    const value = query[clause]
+    return Array.isArray(value) ? value.length > 0 : !!value
+  })
+}
+
 // backward compatible
 export function registerShortcut<T extends IBaseShortcut>(name: string, func: ShortcutFunc<T>) {
   warn('registerShortcut(...) is deprecated. use QueryDef.registerShortcut(...) instead')
   QueryDef.registerShortcut(name, func)
 }
 
-export { QueryArg, ResultColumnArg, ExpressionArg, GroupByArg, SubqueryArg,  } from './interface'
-export { IQueryParams } from './queryParams'
-export { dateSources, CommonFunc, CommonType, IShortcutContext, IBaseShortcut, IQueryArgShortcut, IFieldShortcut, ITableShortcut, ISubqueryShortcut, ISubqueryArgShortcut, IGroupByShortcut, IOrderByShortcut, IDateSourceShortcut, IComboArgShortcut, IComboShortcut, IConditionsShortcut, ISummaryMetricArgShortcut, ISummaryMetricShortcut, IConditionsContext } from './shortcuts'
-export { EqualOrInSubqueryArg, IfExpression, IfNullExpression } from './utils'
+export { QueryArg, ResultColumnArg, ExpressionArg, GroupByArg, SubqueryArg, IAccess, IContribution, IDependency, IDescription, IExplainOptions, IExplanation, IMetadata, IOptions, IRegistration, IValidationProblem } from './interface'
+export { IQueryParams, FilterParams, HavingParams, ITopNParams } from './queryParams'
+export { PolicyArg, IPolicyOptions } from './policies'
+export { IOperator, IOperatorValue, OperatorArity, OperatorFunc } from './operators'
+export { ISummaryTypeOptions, nearestRankSummaryTypes, SummaryTypeFunc } from './summaryTypes'
+export { ComparisonPeriod, DatePreset, FiscalPreset, IDatePreset, IDateRange, IFiscalCalendar, convertTimezone, fiscalExpressions, previousDateRange, resolveDateRange, toDatabaseTime } from './dates'
+export { IDefinition, IDefinitionProblem, ILoadDefinitionOptions, loadDefinition, validateDefinition } from './definition'
+export { dateSources, comboOperators, CommonFunc, CommonType, IShortcutContext, IBaseShortcut, IQueryArgShortcut, IFieldShortcut, ITableShortcut, ISubqueryShortcut, ISubqueryArgShortcut, IGroupByShortcut, IOrderByShortcut, IDateSourceShortcut, IComboArgShortcut, IComboShortcut, IConditionsShortcut, IDimensionShortcut, IDateSourceOptions, IDimensionOptions, ISummaryMetricArgShortcut, ISummaryMetricShortcut, IDerivedMetricShortcut, IPivotShortcut, IWindowMetricShortcut, WindowFunc, IComparisonShortcut, IConditionsContext, IDateSourceContext } from './shortcuts'
+export { defaultDimensions } from './dimensions'
+export { IUnionMember, IUnionParams, QueryDefUnion, UnionQuery } from './union'
+export { ICommonTableExpression, WithQuery } from './cte'
+export { EqualOrInSubqueryArg, IfExpression, IfNullExpression, SafeDivideExpression, WindowExpression } from './utils'
@@ -1,4 +1,4 @@
-import { IExpression, IGroupBy, IQuery, IResultColumn } from '@swivel-admin/node-jql'
+import { IExpression, IGroupBy, IQuery, IResultColumn, Query } from '@swivel-admin/node-jql'
 import { IQueryParams } from './queryParams'
 
 type CommonFunc<T> = T | ((params: IQueryParams) => T | Promise<T>)
@@ -22,9 +22,74 @@ export interface IVariable extends IVariableOptions {
   name: string
 }
 
+export interface IMetadata {
+  label?: string
+  description?: string
+  dataType?: string
+  category?: string
+  filterable?: boolean
+  groupable?: boolean
+  sortable?: boolean
+  operators?: string[]    // operators accepted by the combo subquery
+  roles?: string[]        // roles allowed to request it in the query params. all roles if not specified
+}
+
+export interface IDescription extends IMetadata {
+  name: string
+  variables?: Array<IVariable & { index: number }>
+}
+
+// serializable registration. opaque if defined by functions
+export interface IRegistration {
+  name: string
+  opaque?: boolean
+  query?: Partial<IQuery>
+  prerequisite?: string[] | IQueryParams
+  metadata?: IMetadata
+  variables?: Array<IVariable & { index: number }>
+}
+
 export type Prerequisite = CommonFunc<IQueryParams | string[]>
 
 export interface IOptions {
   withDefault?: boolean   // apply subquery:default. default to be true
   skipDefFields?: boolean // skip field not registered
+  strict?: boolean        // reject query params not matching the registered entries
+  access?: IAccess        // reject query params not allowed for the role
+  timezone?: string       // timezone of the date sources, unless params.constants.timezone is specified
+  withCursor?: boolean    // select the sorting expressions as cursor_0, cursor_1, ... for queryDef.cursor. implied by params.cursor
+}
+
+export interface IAccess {
+  role: string
+}
+
+export interface IValidationProblem {
+  path: string
+  message: string
+}
+
+export interface IExplainOptions extends IOptions {
+  annotate?: string       // render the SQL in the given type, e.g. 'mysql', with comments marking the contributions to each clause
+}
+
+export interface IDependency {
+  key: string
+  direct: boolean         // requested in the query params
+  depth: number           // ordering of the companions. deeper one applied first
+  requestedBy: string[]
+  prerequisites: string[]
+}
+
+export interface IContribution {
+  key: string
+  clause: string          // '$with' | '$select' | '$from' | '$where' | '$group' | '$order' | '$limit'
+}
+
+export interface IExplanation {
+  dependencies: IDependency[]
+  params: IQueryParams
+  contributions: IContribution[]
+  query: Query
+  sql?: string  // with options.annotate
 }
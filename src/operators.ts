@@ -0,0 +1,116 @@
+import { AndExpressions, BetweenExpression, BinaryExpression, FunctionExpression, IConditionalExpression, IExpression, InExpression, IsNullExpression, LikeExpression, OrExpressions, RegexpExpression, Value } from '@swivel-admin/node-jql'
+import { QueryDef } from '.'
+import { relativeDays, toDatabaseTime } from './dates'
+import { IQueryParams } from './queryParams'
+import { NotExpression } from './utils'
+
+// the value shape expected, i.e. nothing, { value }, { value: number }, { value: [...] } or { from, to }
+export type OperatorArity = 'none' | 'value' | 'number' | 'values' | 'range'
+
+export interface IOperatorValue {
+  value?: any
+  from?: any
+  to?: any
+  [key: string]: any
+}
+
+export type OperatorFunc = (expression: IExpression, value: IOperatorValue, params: IQueryParams) => IConditionalExpression
+
+export interface IOperator {
+  arity: OperatorArity
+  build: OperatorFunc
+}
+
+export function checkOperatorValue(name: string, { arity }: IOperator, { value, from, to }: IOperatorValue): string | undefined {
+  switch (arity) {
+    case 'value':
+      if (value === undefined || Array.isArray(value)) return `Operator '${name}' expects { value }`
+      break
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value) || value < 0) return `Operator '${name}' expects { value: number >= 0 }`
+      break
+    case 'values':
+      if (!Array.isArray(value) || !value.length) return `Operator '${name}' expects { value: [...] }`
+      break
+    case 'range':
+      if (from === undefined || to === undefined) return `Operator '${name}' expects { from, to }`
+      break
+  }
+  return undefined
+}
+
+// operator not specified, e.g. { from, to } -> between
+export function inferOperator({ value, from, to }: IOperatorValue): string {
+  return from && to ? 'between' : Array.isArray(value) ? 'in' : !value ? 'is null' : '='
+}
+
+// register both the operator and the 'not' one
+function negatable(name: string, arity: OperatorArity, build: (expression: IExpression, value: IOperatorValue, NOT: boolean, params: IQueryParams) => IConditionalExpression): { [key: string]: IOperator } {
+  const not = name.startsWith('is ') ? `is not ${name.substr(3)}` : `not ${name}`
+  return {
+    [name]: { arity, build: (expression, value, params) => build(expression, value, false, params) },
+    [not]: { arity, build: (expression, value, params) => build(expression, value, true, params) }
+  }
+}
+
+function binary(operator: string): IOperator {
+  return { arity: 'value', build: (expression, { value }) => new BinaryExpression(expression, operator, new Value(value)) }
+}
+
+// [from, to) relative to today in params.constants.timezone, compared as it is in the database
+function betweenDays(expression: IExpression, from: number, to: number, params: IQueryParams): IConditionalExpression {
+  const [start, end] = relativeDays([from, to], params, QueryDef.now)
+  return new AndExpressions([
+    new BinaryExpression(expression, '>=', toDatabaseTime(start, params)),
+    new BinaryExpression(expression, '<', toDatabaseTime(end, params))
+  ])
+}
+
+// comma-delimited column, or the delimiter given
+function findInSet(expression: IExpression, value: any, delimiter = ','): IConditionalExpression {
+  if (delimiter !== ',') expression = new FunctionExpression('REPLACE', expression, new Value(delimiter), new Value(','))
+  return new BinaryExpression(new FunctionExpression('FIND_IN_SET', new Value(value), expression), '>', new Value(0))
+}
+
+export const defaultOperators: { [key: string]: IOperator } = {
+  '=': binary('='),
+  '<>': binary('<>'),
+  '>': binary('>'),
+  '>=': binary('>='),
+  '<': binary('<'),
+  '<=': binary('<='),
+  ...negatable('between', 'range', (expression, { from, to }, NOT) => new BetweenExpression(expression, NOT, new Value(from), new Value(to))),
+  ...negatable('in', 'values', (expression, { value }, NOT) => new InExpression(expression, NOT, new Value(value))),
+  ...negatable('is null', 'none', (expression, value, NOT) => new IsNullExpression(expression, NOT)),
+  ...negatable('regexp', 'value', (expression, { value }, NOT) => new RegexpExpression(expression, NOT, new RegExp(value, 'i'))),
+  ...negatable('like', 'value', (expression, { value }, NOT) => new LikeExpression(expression, NOT, new Value(`%${value}%`))),
+  ...negatable('start with', 'value', (expression, { value }, NOT) => new LikeExpression(expression, NOT, new Value(`%${value}`))),
+  ...negatable('end with', 'value', (expression, { value }, NOT) => new LikeExpression(expression, NOT, new Value(`${value}%`))),
+  ...negatable('equal ignore case', 'value', (expression, { value }, NOT) => new BinaryExpression(new FunctionExpression('LOWER', expression), NOT ? '<>' : '=', new FunctionExpression('LOWER', new Value(value)))),
+  ...negatable('contains any', 'values', (expression, { value, delimiter }, NOT) => {
+    const condition = new OrExpressions((value as any[]).map(v => findInSet(expression, v, delimiter)))
+    return NOT ? NotExpression(condition) : condition
+  }),
+  ...negatable('contains all', 'values', (expression, { value, delimiter }, NOT) => {
+    const condition = new AndExpressions((value as any[]).map(v => findInSet(expression, v, delimiter)))
+    return NOT ? NotExpression(condition) : condition
+  }),
+  ...negatable('is empty', 'none', (expression, value, NOT) => NOT
+    ? new AndExpressions([new IsNullExpression(expression, true), new BinaryExpression(expression, '<>', new Value(''))])
+    : new OrExpressions([new IsNullExpression(expression, false), new BinaryExpression(expression, '=', new Value(''))])
+  ),
+  'not equal or null': {
+    arity: 'value',
+    build: (expression, { value }) => new OrExpressions([new BinaryExpression(expression, '<>', new Value(value)), new IsNullExpression(expression, false)])
+  },
+
+  // relative to the current date in params.constants.timezone, i.e. { value: noOfDays } including today as preset lastNDays
+  'in last days': {
+    arity: 'number',
+    build: (expression, { value }, params) => betweenDays(expression, 1 - value, 1, params)
+  },
+  'in next days': {
+    arity: 'number',
+    build: (expression, { value }, params) => betweenDays(expression, 0, value, params)
+  }
+}
@@ -0,0 +1,81 @@
+import { IConditionalExpression, IFromTable, IJoinClause, IQuery } from '@swivel-admin/node-jql'
+import { IQueryParams } from './queryParams'
+import { mergeQuery } from './utils'
+
+export type PolicyArg = (params: IQueryParams, table?: string) => IConditionalExpression | Promise<IConditionalExpression>
+
+export interface IPolicyOptions {
+  table?: string      // applied to every query selecting from the table, including the nested ones. otherwise the base query only
+  requires?: string[] // constants required
+}
+
+export interface IPolicy extends IPolicyOptions {
+  name: string
+  arg: PolicyArg
+}
+
+function fromTables($from?: string | IFromTable | IFromTable[]): IFromTable[] {
+  if (!$from) return []
+  if (typeof $from === 'string') return [{ table: $from }]
+  if (!Array.isArray($from)) return [$from]
+  return $from
+}
+
+async function getCondition({ name, arg, requires = [] }: IPolicy, params: IQueryParams, table?: string): Promise<IConditionalExpression> {
+  const constants = params.constants || {}
+  for (const key of requires) {
+    if (constants[key] === undefined || constants[key] === null) throw new Error(`Policy '${name}' requires constant '${key}'`)
+  }
+  const condition = await arg(params, table)
+  if (!condition) throw new Error(`No condition returned from policy '${name}'`)
+  return condition
+}
+
+// policies cannot be skipped. fail if any condition cannot be resolved
+export async function applyPolicies(query: IQuery, policies: IPolicy[], params: IQueryParams, nested = false): Promise<IQuery> {
+  if (!policies.length) return query
+
+  // tables in this query with the join clauses if joined, and the nested ones
+  const tables: Array<{ table: string; alias: string; joinClause?: IJoinClause }> = []
+  const subqueries: IQuery[] = []
+  function register({ table, $as, joinClauses }: IFromTable, joinClause?: IJoinClause) {
+    if (typeof table === 'string') {
+      tables.push({ table, alias: $as || table, joinClause })
+    }
+    else if (table && 'classname' in table) {
+      subqueries.push(table as IQuery)
+    }
+    for (const clause of joinClauses ? Array.isArray(joinClauses) ? joinClauses : [joinClauses] : []) {
+      register(typeof clause.table === 'string' ? { table: clause.table } : clause.table, clause)
+    }
+  }
+  for (const table of fromTables(query.$from)) register(table)
+
+  // ON of the joined tables, so that LEFT JOIN keeps the rows not joined
+  const $where: IConditionalExpression[] = []
+  for (const policy of policies) {
+    if (policy.table) {
+      for (const { table, alias, joinClause } of tables) {
+        if (table !== policy.table) continue
+        const condition = await getCondition(policy, params, alias)
+        if (joinClause) {
+          const $on = joinClause.$on ? Array.isArray(joinClause.$on) ? joinClause.$on : [joinClause.$on] : []
+          joinClause.$on = [...$on, condition]
+        }
+        else {
+          $where.push(condition)
+        }
+      }
+    }
+    else if (!nested) {
+      $where.push(await getCondition(policy, params))
+    }
+  }
+  if ($where.length) mergeQuery(query, { $where })
+
+  for (const subquery of subqueries) {
+    await applyPolicies(subquery, policies, params, true)
+  }
+
+  return query
+}
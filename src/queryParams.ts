@@ -1,4 +1,5 @@
 import { IConditionalExpression, IGroupBy, ILimitOffset, IOrderBy, IResultColumn } from '@swivel-admin/node-jql'
+import { IOperatorValue } from './operators'
 
 export type FieldParams = string | [string, string] | { column: [string, string], $as?: string } | IResultColumn
 
@@ -6,14 +7,35 @@ export type GroupByParams = string | IGroupBy
 
 export type OrderByParams = string | IOrderBy | { key: string, direction?: 'ASC' | 'DESC' }
 
+// { and: [...] }, { or: [...] } or { not: ... }. the leaves are the registered subqueries with their values as in IQueryParams.subqueries
+export type FilterParams = { and: FilterParams[] } | { or: FilterParams[] } | { not: FilterParams } | { [key: string]: true | { value: any } | { from: any; to: any } | any }
+
+// the registered fields compared by the registered operators, e.g. { cbm: { operator: '>', value: 100 } }. operator inferred from the value as combo if not specified
+export type HavingParams = { [key: string]: { operator?: string } & IOperatorValue }
+
+// top n groups by the registered field, with the rest grouped as othersLabel
+export interface ITopNParams {
+  groupBy: string
+  metric: string
+  n: number
+  othersLabel?: string  // Others by default
+}
+
 export interface IQueryParams {
   distinct?: boolean
   fields?: FieldParams[]
   tables?: string[]
   subqueries?: { [key: string]: true | { value: any } | { from: any; to: any } | any }
+  filter?: FilterParams
   groupBy?: GroupByParams[]
+  having?: HavingParams     // HAVING on the aggregated fields
+  topN?: ITopNParams
+  rollup?: boolean          // GROUP BY ... WITH ROLLUP
   sorting?: OrderByParams | OrderByParams[]
   limit?: number | ILimitOffset
+  cursor?: string   // rows after the cursor built by queryDef.cursor
+  ctes?: string[]   // WITH the registered CTEs, usually resolved from the prerequisites
+  pivots?: { [key: string]: any[] } // values of the pivot shortcuts
 
   // extra
   conditions?: IConditionalExpression
@@ -1,8 +1,12 @@
 import debug = require('debug')
-import { AndExpressions, BetweenExpression, BinaryExpression, CaseExpression, ColumnExpression, FunctionExpression, GroupBy, IConditionalExpression, IExpression, IFromTable, InExpression, IsNullExpression, LikeExpression, OrderBy, OrExpressions, ParameterExpression, RegexpExpression, ResultColumn, Value } from '@swivel-admin/node-jql'
-import { IfExpression, IfNullExpression, QueryDef } from '.'
-import { Prerequisite, QueryArg, SubqueryArg } from './interface'
+import { AndExpressions, BetweenExpression, BinaryExpression, FunctionExpression, GroupBy, IConditionalExpression, IExpression, IFromTable, IOrderBy, IsNullExpression, MathExpression, OrderBy, OrExpressions, ResultColumn, Value } from '@swivel-admin/node-jql'
+import { QueryDef } from '.'
+import { IMetadata, IVariable, Prerequisite, QueryArg, SubqueryArg } from './interface'
+import { checkDateValue, ComparisonPeriod, convertTimezone, fiscalExpressions, IDateRange, IFiscalCalendar, previousDateRange, resolveDateRange, toDatabaseTime } from './dates'
+import { defaultDimensionNames, defaultDimensions, fiscalDimensions } from './dimensions'
+import { checkOperatorValue, defaultOperators, inferOperator, IOperatorValue } from './operators'
 import { IQueryParams } from './queryParams'
+import { dummyQuery, guardDivision, mergePrerequisite, SafeDivideExpression, WindowExpression } from './utils'
 
 const log = debug('QueryDef:log')
 const warn = debug('QueryDef:warn')
@@ -25,6 +29,7 @@ export interface IBaseShortcut {
   type: string
   name: string
   prerequisite?: Prerequisite
+  metadata?: IMetadata
 
   // backward compatible
   companions?: string[]|((params: IQueryParams) => string[] | Promise<string[]>)
@@ -50,12 +55,14 @@ export interface ISubqueryShortcut extends IBaseShortcut {
   type: 'subquery'
   expression: CommonType<IExpression>
   unknowns?: UnknownType
+  variables?: Array<IVariable & { index: number }>
 }
 
 export interface ISubqueryArgShortcut extends IBaseShortcut {
   type: 'subquery'
   subqueryArg: CommonFunc<SubqueryArg>
   unknowns?: UnknownType
+  variables?: Array<IVariable & { index: number }>
 }
 
 export interface IGroupByShortcut extends IBaseShortcut {
@@ -72,22 +79,38 @@ export interface IOrderByShortcut extends IBaseShortcut {
 export interface IConditionsContext extends IShortcutContext {
   prefixConditions: IConditionsShortcut[]
   suffixConditions: IConditionsShortcut[]
-  summaryMetrics: Array<ISummaryMetricShortcut | ISummaryMetricArgShortcut>
+  summaryMetrics: SummaryMetrics[]
+  pivots?: string[] // names of the pivot shortcuts, i.e. the keys of params.pivots
 }
 
 export interface IDateSourceShortcut extends ISubqueryShortcut {
   exprArg: CommonFunc<(params: IQueryParams) => IExpression>
 }
 
+// the date sources registered so far
+export interface IDateSourceContext extends IShortcutContext {
+  dateSources: { [key: string]: { expression: IExpression | ((params: IQueryParams) => IExpression); prerequisite?: Prerequisite; fiscalCalendar?: IFiscalCalendar } }
+}
+
+// e.g. { name: 'YoY', dateSource: 'jobDate', metrics: ['cbm'] } -> subquery YoY with the value as jobDate, and field cbmYoY
+export interface IComparisonShortcut extends IBaseShortcut {
+  type: 'comparison'
+  dateSource: string      // registered before
+  metrics: string[]       // summary metrics or derived metrics registered before
+  period?: ComparisonPeriod   // lastYear by default
+}
+
 export interface IComboShortcut extends IBaseShortcut {
   type: 'combo'
   expression: CommonType<IExpression>
   registered?: true
+  operators?: string[]  // operators supported. all the registered ones by default
 }
 
 export interface IComboArgShortcut extends IBaseShortcut {
   type: 'combo'
   exprArg: CommonFunc<(params: IQueryParams) => IExpression>
+  operators?: string[]
 }
 
 interface IConditionsCase {
@@ -107,20 +130,70 @@ export interface IConditionsShortcut extends IBaseShortcut {
   cases: Array<IConditionsCase | IConditionsArgCase>
 }
 
+// suffix conditions combined with every summary metric, e.g. Month
+export interface IDimensionShortcut extends IBaseShortcut {
+  type: 'dimension'
+  cases: Array<IConditionsCase | IConditionsArgCase>
+}
+
+// options of queryDef.useShortcuts
+export interface IDateSourceOptions {
+  fiscalCalendar?: IFiscalCalendar  // register the fiscal year, quarter and period of the date sources
+}
+
+export interface IDimensionOptions extends IDateSourceOptions {
+  dimensions?: string[] // built-in dimensions applied, i.e. Month, Division, Quarter, Week, Weekday and Year, and FiscalQuarter and FiscalPeriod with the fiscal calendar. ['Month', 'Division'] by default
+}
+
 export interface ISummaryMetricShortcut extends IBaseShortcut {
   type: 'summaryMetric'
-  summaryType?: 'count' | 'sum'
+  summaryType?: string  // registered summary type, e.g. count (DISTINCT), countAll, sum, avg, min, max, countIf, or median and percentile if registered. sum by default
+  percentile?: number   // 0 - 1 for percentile
   expression: CommonType<IExpression>
   registered?: boolean
+  dimensions?: string[] // conditions and dimensions combined with. all by default
 }
 
 export interface ISummaryMetricArgShortcut extends IBaseShortcut {
   type: 'summaryMetric'
-  summaryType?: 'count' | 'sum'
+  summaryType?: string
+  percentile?: number
   exprArg: CommonFunc<(params: IQueryParams) => IExpression>
+  dimensions?: string[]
+}
+
+// e.g. revenuePerCbm = revenue / NULLIF(cbm, 0). the expression is built from the aggregated metrics, per condition
+export interface IDerivedMetricShortcut extends IBaseShortcut {
+  type: 'derivedMetric'
+  metrics: string[]   // summary metrics or derived metrics registered
+  expression: CommonType<IExpression>
+  dimensions?: string[]
 }
 
-export type DefaultShortcuts = IQueryArgShortcut | IFieldShortcut | ITableShortcut | ISubqueryShortcut | ISubqueryArgShortcut | IGroupByShortcut | IOrderByShortcut | IComboShortcut | IComboArgShortcut | IConditionsShortcut | ISummaryMetricShortcut | ISummaryMetricArgShortcut
+type SummaryMetrics = ISummaryMetricShortcut | ISummaryMetricArgShortcut | IDerivedMetricShortcut
+
+export type WindowFunc = 'sum' | 'rank' | 'rowNumber' | 'lag' | 'lead' | 'share'
+
+// e.g. running total SUM(cbm) OVER (PARTITION BY carrierCode ORDER BY month)
+// the partition keys are registered groupBy and the order keys are registered orderBy
+export interface IWindowMetricShortcut extends IBaseShortcut {
+  type: 'windowMetric'
+  metric: string    // summary metric or derived metric registered
+  func: WindowFunc
+  partitionBy?: string[]
+  orderBy?: Array<string | { key: string; direction?: 'ASC' | 'DESC' }>
+  offset?: number   // lag / lead. 1 by default
+}
+
+// e.g. cbm by the carriers selected. the values are resolved at apply time
+export interface IPivotShortcut extends IBaseShortcut {
+  type: 'pivot'
+  expression: CommonType<IExpression>
+  metrics: string[]   // summary metrics or derived metrics registered
+  values?: (params: IQueryParams) => any[] | Promise<any[]>  // used if params.pivots[name] is not specified
+}
+
+export type DefaultShortcuts = IQueryArgShortcut | IFieldShortcut | ITableShortcut | ISubqueryShortcut | ISubqueryArgShortcut | IGroupByShortcut | IOrderByShortcut | IComboShortcut | IComboArgShortcut | IConditionsShortcut | IDimensionShortcut | ISummaryMetricShortcut | ISummaryMetricArgShortcut | IDerivedMetricShortcut | IPivotShortcut | IWindowMetricShortcut | IComparisonShortcut
 
 export const FieldShortcutFunc: ShortcutFunc<IFieldShortcut | IQueryArgShortcut> = async function(this: QueryDef, shortcut: IFieldShortcut | IQueryArgShortcut, ctx: IShortcutContext) {
   const { name } = shortcut
@@ -140,7 +213,7 @@ export const FieldShortcutFunc: ShortcutFunc<IFieldShortcut | IQueryArgShortcut>
   }
 
   if (queryArg) {
-    this.field(name, queryArg, ctx.prerequisite)
+    this.field(name, queryArg, ctx.prerequisite, shortcut.metadata)
   }
   else {
     warn(`Invalid field:${name}`)
@@ -159,7 +232,7 @@ export const TableShortcutFunc: ShortcutFunc<ITableShortcut | IQueryArgShortcut>
   }
 
   if (queryArg) {
-    this.table(name, queryArg, ctx.prerequisite)
+    this.table(name, queryArg, ctx.prerequisite, shortcut.metadata)
   }
   else {
     warn(`Invalid table:${name}`)
@@ -178,7 +251,7 @@ export const SubqueryShortcutFunc: ShortcutFunc<ISubqueryShortcut | ISubqueryArg
   }
 
   if (subqueryArg) {
-    const subqueryDef = this.subquery(name, subqueryArg, ctx.prerequisite)
+    const subqueryDef = this.subquery(name, subqueryArg, ctx.prerequisite, shortcut.metadata)
 
     if ('unknowns' in shortcut) {
       if (Array.isArray(shortcut.unknowns)) {
@@ -200,6 +273,11 @@ export const SubqueryShortcutFunc: ShortcutFunc<ISubqueryShortcut | ISubqueryArg
         }
       }
     }
+
+    // with default or format
+    for (const { name, index, ...options } of shortcut.variables || []) {
+      subqueryDef.register(name, index, options)
+    }
   }
   else {
     warn(`Invalid subquery:${name}`)
@@ -218,7 +296,7 @@ export const GroupByShortcutFunc: ShortcutFunc<IGroupByShortcut | IQueryArgShort
   }
 
   if (queryArg) {
-    this.groupBy(name, queryArg, ctx.prerequisite)
+    this.groupBy(name, queryArg, ctx.prerequisite, shortcut.metadata)
   }
   else {
     warn(`Invalid groupBy:${name}`)
@@ -237,7 +315,7 @@ export const OrderByShortcutFunc: ShortcutFunc<IOrderByShortcut | IQueryArgShort
     queryArg = await shortcut.queryArg(ctx.registered)
   }
   if (queryArg) {
-    this.orderBy(name, queryArg, ctx.prerequisite)
+    this.orderBy(name, queryArg, ctx.prerequisite, shortcut.metadata)
   }
   else {
     warn(`Invalid orderBy:${name}`)
@@ -246,69 +324,22 @@ export const OrderByShortcutFunc: ShortcutFunc<IOrderByShortcut | IQueryArgShort
 
 export const dateSources: string[] = []
 
-function shipmentDateExpressionFn(subqueriesOrEntityType: any | string) {
-  let entityType: string
-  if (typeof subqueriesOrEntityType === 'string') {
-    entityType = subqueriesOrEntityType
-  }
-  else {
-    entityType = subqueriesOrEntityType.entityType && subqueriesOrEntityType.entityType.value
-  }
-
-  return IfNullExpression(
-    new CaseExpression(
-      [
-        {
-          $when: new BinaryExpression(new ColumnExpression(entityType, 'boundTypeCode'), '=', new Value('O')),
-          $then: IfNullExpression(
-            new ColumnExpression(`${entityType}_date`, 'departureDateActual'),
-            IfNullExpression(
-              new ColumnExpression(`${entityType}`, 'departureDateEstimated'),
-              new ColumnExpression(`${entityType}_date`, 'departureDateEstimated')
-            )
-          )
-        },
-        {
-          $when: new BinaryExpression(new ColumnExpression(entityType, 'boundTypeCode'), '=', new Value('I')),
-          $then: IfNullExpression(
-            new ColumnExpression(`${entityType}_date`, 'arrivalDateActual'),
-            IfNullExpression(
-              new ColumnExpression(`${entityType}`, 'arrivalDateEstimated'),
-              new ColumnExpression(`${entityType}_date`, 'arrivalDateEstimated')
-            )
-          )
-        }
-      ],
-      new ColumnExpression(entityType, entityType === 'shipment' ? 'jobDate' : 'createdAt')
-    ),
-    new ColumnExpression(entityType, entityType === 'shipment' ? 'jobDate' : 'createdAt')
-  )
-}
-
-function parseDateSource(params: IQueryParams, expression: IExpression, dateExpressions: any = {}) {
-  const entityType = params.subqueries && params.subqueries.entityType && params.subqueries.entityType.value
-  if (!entityType) throw new Error('Missing entity type')
-  const dateSource = params.subqueries && params.subqueries.dateSource && params.subqueries.dateSource.value
-  switch (dateSource) {
-    case 'shipmentDate': {
-      if (entityType === 'shipment') expression = dateExpressions.shipmentDate || shipmentDateExpressionFn(entityType)
-      break
-    }
-    case 'departureDateEstimated':
-    case 'arrivalDateEstimated': {
-      expression = dateExpressions[dateSource] || IfNullExpression(new ColumnExpression(`${entityType}_date`, dateSource), expression)
-      break
-    }
-    default: {
-      expression = dateExpressions[dateSource]
-      break
-    }
-  }
-  return expression
+// compared as it is in the database
+function betweenDates(expression: IExpression, { from, to }: IDateRange, params: IQueryParams): IConditionalExpression {
+  return new BetweenExpression(expression, false, toDatabaseTime(from, params), toDatabaseTime(to, params))
+}
+
+// buckets of the date sources in params.constants.timezone, e.g. jobDateMonth = '2026-01'
+const dateBuckets: { [key: string]: (expression: IExpression) => IExpression } = {
+  Day: expression => new FunctionExpression('DATE', expression),
+  Week: expression => new FunctionExpression('DATE_FORMAT', expression, new Value('%x-W%v')),
+  Month: expression => new FunctionExpression('DATE_FORMAT', expression, new Value('%Y-%m')),
+  Quarter: expression => new FunctionExpression('CONCAT', new FunctionExpression('YEAR', expression), new Value('-Q'), new FunctionExpression('QUARTER', expression)),
+  Year: expression => new FunctionExpression('YEAR', expression)
 }
 
-export const DateSourceShortcutFunc: ShortcutFunc<IDateSourceShortcut> = async function(this: QueryDef, shortcut: IDateSourceShortcut, ctx: IShortcutContext) {
-  const { name, prerequisite } = shortcut
+export const DateSourceShortcutFunc: ShortcutFunc<IDateSourceShortcut> = async function(this: QueryDef, shortcut: IDateSourceShortcut, ctx: IDateSourceContext, { fiscalCalendar }: IDateSourceOptions = {}) {
+  const { name, prerequisite, metadata } = shortcut
   const expression = 'expression' in shortcut
     ? typeof shortcut.expression === 'function'
       ? await shortcut.expression(ctx.registered)
@@ -317,41 +348,92 @@ export const DateSourceShortcutFunc: ShortcutFunc<IDateSourceShortcut> = async f
       ? await (shortcut as IDateSourceShortcut).exprArg(ctx.registered)
       : new Value(null)
 
-  this.field(true, name, params => ({ $select: new ResultColumn(typeof expression === 'function' ? expression(params) : expression, name) }), prerequisite)
+  if (!ctx.dateSources) ctx.dateSources = {}
+  ctx.dateSources[name] = { expression, prerequisite, fiscalCalendar }
+
+  this.field(true, name, params => ({ $select: new ResultColumn(convertTimezone(typeof expression === 'function' ? expression(params) : expression, params), name) }), prerequisite, metadata)
+
+  // e.g. jobDateFiscalYear, jobDateFiscalQuarter and jobDateFiscalPeriod
+  if (fiscalCalendar) {
+    for (const unit of ['year', 'quarter', 'period']) {
+      const key = `${name}Fiscal${unit.charAt(0).toLocaleUpperCase()}${unit.substr(1)}`
+      const fiscal = (params: IQueryParams) => fiscalExpressions(convertTimezone(typeof expression === 'function' ? expression(params) : expression, params), fiscalCalendar)[unit]
+      this.field(true, key, params => ({ $select: new ResultColumn(fiscal(params), key) }), prerequisite, metadata)
+      this.groupBy(true, key, params => ({ $group: new GroupBy([fiscal(params)]) }), prerequisite, metadata)
+    }
+  }
+
+  // e.g. jobDateDay, jobDateWeek, jobDateMonth, jobDateQuarter and jobDateYear, as the expression registered is the column in the database time
+  for (const unit of Object.keys(dateBuckets)) {
+    const key = `${name}${unit}`
+    const bucket = (params: IQueryParams) => dateBuckets[unit](convertTimezone(typeof expression === 'function' ? expression(params) : expression, params))
+    this.field(true, key, params => ({ $select: new ResultColumn(bucket(params), key) }), prerequisite, metadata)
+    this.groupBy(true, key, params => ({ $group: new GroupBy([bucket(params)]) }), prerequisite, metadata)
+  }
 
-  this.subquery(true, name, ({ from, to }, params = {}) => {
+  // { from, to } or { preset, n? } in params.constants.timezone, including the fiscal presets
+  this.subquery(true, name, (value, params = {}) => {
     const subqueries = params.subqueries || {}
     if (subqueries.dateSource && subqueries.dateSource.value !== name) throw new Error('MULTIPLE_DATE_TYPES')
+    const range = resolveDateRange(value, params, QueryDef.now, fiscalCalendar)
     return {
       $where: new OrExpressions([
         new OrExpressions([
-          new IsNullExpression(new Value(from), false),
-          new IsNullExpression(new Value(to), false)
+          new IsNullExpression(new Value(range.from), false),
+          new IsNullExpression(new Value(range.to), false)
         ]),
-        new BetweenExpression(typeof expression === 'function' ? expression(params) : expression, false, new Value(from), new Value(to))
+        betweenDates(typeof expression === 'function' ? expression(params) : expression, range, params)
       ])
     }
-  }, prerequisite)
+  }, prerequisite, metadata).expect(checkDateValue)
 
-  this.subquery(true, `${name}Before`, ({ from, to }, params = {}) => {
+  this.subquery(true, `${name}Before`, (value, params = {}) => {
     const subqueries = params.subqueries || {}
     if (subqueries.dateSource && subqueries.dateSource.value !== name) throw new Error('MULTIPLE_DATE_TYPES')
+    const { to } = resolveDateRange(value, params, QueryDef.now, fiscalCalendar)
     return {
       $where: new OrExpressions([
         new OrExpressions([
           new IsNullExpression(new Value(to), false)
         ]),
-        new BinaryExpression(typeof expression === 'function' ? expression(params) : expression, '<=', new Value(to))
+        new BinaryExpression(typeof expression === 'function' ? expression(params) : expression, '<=', toDatabaseTime(to, params))
       ])
     }
-  }, prerequisite)
+  }, prerequisite, metadata).expect(checkDateValue)
 
   // auto registered
   if (typeof expression !== 'function') ctx.registered[name] = expression
   if (dateSources.indexOf(name) === -1) dateSources.push(name)
 }
 
-export const ComboShortcutFunc: ShortcutFunc<IComboShortcut | IComboArgShortcut> = async function(this: QueryDef, { name, prerequisite, ...shortcut }: IComboShortcut | IComboArgShortcut, ctx: IShortcutContext) {
+export const comboOperators = Object.keys(defaultOperators)
+
+type ComboValue = IOperatorValue & { operator?: string; multiple?: Array<IOperatorValue & { operator?: string }> }
+
+// { operator?, value } or { multiple: [{ operator?, value }, ...] }
+function comboValues({ multiple = [], ...value }: ComboValue): Array<IOperatorValue & { operator?: string }> {
+  return multiple.length ? multiple : [value]
+}
+
+// the operators supported by the combo with the value shapes they expect
+function checkComboValue(name: string, operators: string[], value: any): string | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return 'Expect { operator?, value }, { operator?, from, to } or { multiple: [...] }'
+  if (value.multiple !== undefined && !Array.isArray(value.multiple)) return 'Expect multiple to be an array'
+  for (const item of comboValues(value)) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) return 'Expect { operator?, value } in multiple'
+    const { operator = inferOperator(item), ...operatorValue } = item
+    if (typeof operator !== 'string') return 'Expect operator to be a string'
+    const key = operator.toLocaleLowerCase()
+    const registered = QueryDef.operators[key]
+    if (!registered) return `Unknown operator '${operator}'`
+    if (operators.indexOf(key) === -1) return `Operator '${operator}' is not supported by combo '${name}'`
+    const message = checkOperatorValue(key, registered, operatorValue)
+    if (message) return message
+  }
+  return undefined
+}
+
+export const ComboShortcutFunc: ShortcutFunc<IComboShortcut | IComboArgShortcut> = async function(this: QueryDef, { name, prerequisite, metadata, ...shortcut }: IComboShortcut | IComboArgShortcut, ctx: IShortcutContext) {
   const regFlag = 'registered' in shortcut && shortcut.registered
   const expression = 'expression' in shortcut
     ? typeof shortcut.expression === 'function'
@@ -362,152 +444,45 @@ export const ComboShortcutFunc: ShortcutFunc<IComboShortcut | IComboArgShortcut>
       : null
   if (!expression) throw new Error(`Fail to register shortcut '${name}'`)
 
+  // operators registered so far unless specified
+  const operators = shortcut.operators || Object.keys(QueryDef.operators)
+  for (const operator of operators) {
+    if (!QueryDef.operators[operator]) throw new Error(`Unknown operator '${operator}' in combo '${name}'`)
+  }
+
   if (typeof expression !== 'function' && regFlag) {
     ctx.registered[name] = expression
     if (ctx.prerequisite && typeof ctx.prerequisite !== 'function') ctx.regPrerequisites[name] = ctx.prerequisite
   }
 
-  this.groupField(true, name, params => typeof expression === 'function' ? expression(params) : expression, 'group_', prerequisite)
+  this.groupField(true, name, params => typeof expression === 'function' ? expression(params) : expression, 'group_', prerequisite, metadata)
 
-  this.groupField(true, `${name}Any`, params => new FunctionExpression('ANY_VALUE', typeof expression === 'function' ? expression(params) : expression), 'group_', prerequisite)
+  this.groupField(true, `${name}Any`, params => new FunctionExpression('ANY_VALUE', typeof expression === 'function' ? expression(params) : expression), 'group_', prerequisite, metadata)
 
-  this.subquery(true, name, ({ value, from, to, operator, multiple = [] }, params = {}) => {
+  this.subquery(true, name, (value: ComboValue, params = {}) => {
+    const message = checkComboValue(name, operators, value)
+    if (message) throw new Error(message)
     const expr = typeof expression === 'function' ? expression(params) : expression
-    if (!multiple.length) multiple = [{ value, from, to, operator }]
     return {
-      $where: multiple.map(({ value, from, to, operator = from && to ? 'between' : Array.isArray(value) ? 'in' : !value ? 'is null' : '=' }) => {
-        const NOT = operator.startsWith('not ') || operator.indexOf(' not ') > -1
-        switch (operator.toLocaleLowerCase()) {
-          case '=':
-          case '<>':
-          case '>':
-          case '>=':
-          case '<':
-          case '<=':
-            return new BinaryExpression(expr, operator, new Value(value))
-          case 'between':
-          case 'not between':
-            return new BetweenExpression(expr, NOT, new Value(from), new Value(to))
-          case 'in':
-          case 'not in':
-            return new InExpression(expr, NOT, new Value(value))
-          case 'is null':
-          case 'is not null':
-            return new IsNullExpression(expr, NOT)
-          case 'regexp':
-          case 'not regexp':
-            return new RegexpExpression(expr, NOT, new RegExp(value, 'i'))
-          case 'like':
-          case 'not like':
-            return new LikeExpression(expr, NOT, new Value(`%${value}%`))
-          case 'start with':
-          case 'not start with':
-            return new LikeExpression(expr, NOT, new Value(`%${value}`))
-          case 'end with':
-          case 'not end with':
-            return new LikeExpression(expr, NOT, new Value(`${value}%`))
-        }
+      $where: comboValues(value).map(({ operator, ...operatorValue }) => {
+        const registered = QueryDef.operators[(operator || inferOperator(operatorValue)).toLocaleLowerCase()]
+        return registered.build(expr, operatorValue, params)
       })
     }
-  }, prerequisite)
+  }, prerequisite, { operators, ...metadata }).expect(value => checkComboValue(name, operators, value))
 }
 
-function initializeContext(ctx: IConditionsContext) {
+function initializeContext(ctx: IConditionsContext, options: IDimensionOptions = {}) {
   if (!ctx.prefixConditions) {
     ctx.prefixConditions = []
   }
 
   if (!ctx.suffixConditions) {
-    ctx.suffixConditions = [
-      {
-        type: 'conditions',
-        name: 'Month',
-        cases: [
-          {
-            value: 'January',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(1))
-          },
-          {
-            value: 'February',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(2))
-          },
-          {
-            value: 'March',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(3))
-          },
-          {
-            value: 'April',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(4))
-          },
-          {
-            value: 'May',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(5))
-          },
-          {
-            value: 'June',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(6))
-          },
-          {
-            value: 'July',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(7))
-          },
-          {
-            value: 'August',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(8))
-          },
-          {
-            value: 'September',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(9))
-          },
-          {
-            value: 'October',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(10))
-          },
-          {
-            value: 'November',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(11))
-          },
-          {
-            value: 'December',
-            exprArg: re => params => new BinaryExpression(new FunctionExpression('Month', parseDateSource(params, re['date'], re)), '=', new Value(12))
-          }
-        ]
-      },
-      {
-        type: 'conditions',
-        name: 'Division',
-        cases: [
-          {
-            value: 'AE',
-            exprArg: re => () => new AndExpressions([
-              new BinaryExpression(re['moduleTypeCode'], '=', new Value('AIR')),
-              new BinaryExpression(re['boundTypeCode'], '=', new Value('O'))
-            ])
-          },
-          {
-            value: 'AI',
-            exprArg: re => () => new AndExpressions([
-              new BinaryExpression(re['moduleTypeCode'], '=', new Value('AIR')),
-              new BinaryExpression(re['boundTypeCode'], '=', new Value('I'))
-            ])
-          },
-          {
-            value: 'SE',
-            exprArg: re => () => new AndExpressions([
-              new BinaryExpression(re['moduleTypeCode'], '=', new Value('SEA')),
-              new BinaryExpression(re['boundTypeCode'], '=', new Value('O'))
-            ])
-          },
-          {
-            value: 'SI',
-            exprArg: re => () => new AndExpressions([
-              new BinaryExpression(re['moduleTypeCode'], '=', new Value('SEA')),
-              new BinaryExpression(re['boundTypeCode'], '=', new Value('I'))
-            ])
-          }
-        ]
-      }
-    ]
+    const dimensions = options.fiscalCalendar ? { ...defaultDimensions, ...fiscalDimensions(options.fiscalCalendar) } : defaultDimensions
+    ctx.suffixConditions = (options.dimensions || defaultDimensionNames).map(name => {
+      if (!dimensions[name]) throw new Error(`Unknown dimension '${name}'`)
+      return dimensions[name]
+    })
   }
 
   if (!ctx.summaryMetrics) {
@@ -515,19 +490,62 @@ function initializeContext(ctx: IConditionsContext) {
   }
 }
 
-export const ConditionsShortcutFunc: ShortcutFunc<IConditionsShortcut> = async function(this: QueryDef, prefix: IConditionsShortcut, ctx: IConditionsContext) {
-  initializeContext(ctx)
+// whether the summary metric is combined with the conditions
+function combines({ dimensions }: SummaryMetrics, ...conditions: IConditionsShortcut[]): boolean {
+  return !dimensions || conditions.every(({ name }) => dimensions.indexOf(name) > -1)
+}
+
+export const ConditionsShortcutFunc: ShortcutFunc<IConditionsShortcut> = async function(this: QueryDef, prefix: IConditionsShortcut, ctx: IConditionsContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
 
   // in case registered after summary metric
   for (const summaryMetric of ctx.summaryMetrics) {
     for (const suffix of ctx.suffixConditions) {
-      await registerSummaryMetricWithConditions.bind(this)([prefix, suffix], summaryMetric, ctx)
+      if (combines(summaryMetric, prefix, suffix)) await registerSummaryMetricWithConditions.bind(this)([prefix, suffix], summaryMetric, ctx)
     }
   }
   ctx.prefixConditions.push(prefix)
 }
 
-async function registerSummaryMetricWithConditions(this: QueryDef, [prefix, suffix = prefix]: [IConditionsShortcut, IConditionsShortcut?], shortcut: ISummaryMetricShortcut | ISummaryMetricArgShortcut, ctx: IShortcutContext) {
+export const DimensionShortcutFunc: ShortcutFunc<IDimensionShortcut> = async function(this: QueryDef, { type, ...shortcut }: IDimensionShortcut, ctx: IConditionsContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
+  const suffix: IConditionsShortcut = { type: 'conditions', ...shortcut }
+  if (ctx.suffixConditions.find(({ name }) => name === suffix.name)) throw new Error(`Dimension '${suffix.name}' already registered`)
+
+  // in case registered after summary metric
+  for (const summaryMetric of ctx.summaryMetrics) {
+    if (combines(summaryMetric, suffix)) await registerSummaryMetricWithConditions.bind(this)([suffix], summaryMetric, ctx)
+    for (const prefix of ctx.prefixConditions) {
+      if (combines(summaryMetric, prefix, suffix)) await registerSummaryMetricWithConditions.bind(this)([prefix, suffix], summaryMetric, ctx)
+    }
+  }
+  ctx.suffixConditions.push(suffix)
+}
+
+function summarize({ summaryType = 'sum', percentile }: ISummaryMetricShortcut | ISummaryMetricArgShortcut, expression: IExpression, condition?: IConditionalExpression): IExpression {
+  return QueryDef.summaryTypes[summaryType](expression, condition, { percentile })
+}
+
+// aggregated expression of the metric, of the rows matching the condition if any
+type SummaryFunc = (params: IQueryParams, condition?: IConditionalExpression) => Promise<IExpression>
+
+function findSummaryMetric(name: string, ctx: IConditionsContext): SummaryMetrics {
+  const metric = ctx.summaryMetrics.find(m => m.name === name)
+  if (!metric) throw new Error(`Summary metric '${name}' not registered`)
+  return metric
+}
+
+async function summaryFuncOf(shortcut: SummaryMetrics, ctx: IConditionsContext): Promise<SummaryFunc> {
+  if (shortcut.type === 'derivedMetric') {
+    const metrics: { [key: string]: SummaryFunc } = {}
+    for (const name of shortcut.metrics) metrics[name] = await summaryFuncOf(findSummaryMetric(name, ctx), ctx)
+    return async(params, condition) => {
+      const registered: { [key: string]: IExpression } = {}
+      for (const name of shortcut.metrics) registered[name] = await metrics[name](params, condition)
+      return guardDivision(typeof shortcut.expression === 'function' ? await shortcut.expression(registered) : shortcut.expression)
+    }
+  }
+
   const expression = 'expression' in shortcut
     ? typeof shortcut.expression === 'function'
       ? await shortcut.expression(ctx.registered)
@@ -535,6 +553,24 @@ async function registerSummaryMetricWithConditions(this: QueryDef, [prefix, suff
     : 'exprArg' in shortcut
       ? await shortcut.exprArg(ctx.registered)
       : new Value(null)
+  return async(params, condition) => summarize(shortcut, typeof expression === 'function' ? expression(params) : expression, condition)
+}
+
+// including the ones of the metrics derived from
+function prerequisiteOf(shortcut: SummaryMetrics, ctx: IConditionsContext): Prerequisite | undefined {
+  let result = shortcut.prerequisite
+  if (shortcut.type === 'derivedMetric') {
+    for (const name of shortcut.metrics) {
+      const prerequisite = prerequisiteOf(findSummaryMetric(name, ctx), ctx)
+      if (prerequisite) result = result ? mergePrerequisite(result, prerequisite) : prerequisite
+    }
+  }
+  return result
+}
+
+async function registerSummaryMetricWithConditions(this: QueryDef, [prefix, suffix = prefix]: [IConditionsShortcut, IConditionsShortcut?], shortcut: SummaryMetrics, ctx: IConditionsContext) {
+  const summary = await summaryFuncOf(shortcut, ctx)
+  const prerequisite = prerequisiteOf(shortcut, ctx)
 
   if (prefix === suffix) {
     this.field(true, `${shortcut.name}${suffix.name}`, async params => {
@@ -549,29 +585,16 @@ async function registerSummaryMetricWithConditions(this: QueryDef, [prefix, suff
           : 'exprArg' in item
             ? await item.exprArg(ctx.registered)
             : new Value(null)
-        const summaryExpression = new FunctionExpression(
-          shortcut.summaryType === 'count' ? 'COUNT' : 'SUM',
-          new ParameterExpression(shortcut.summaryType === 'count' ? 'DISTINCT' : '',
-            IfExpression(
-              typeof expr === 'function' ? expr(params) : expr,
-              typeof expression === 'function' ? expression(params) : expression
-            )
-          )
-        )
+        const summaryExpression = await summary(params, typeof expr === 'function' ? expr(params) : expr)
         resultColumnList.push(new ResultColumn(summaryExpression, `${item.value}_${shortcut.name}`))
       }
 
       // total
-      const summaryExpression = new FunctionExpression(
-        shortcut.summaryType === 'count' ? 'COUNT' : 'SUM',
-        new ParameterExpression(shortcut.summaryType === 'count' ? 'DISTINCT' : '',
-          typeof expression === 'function' ? expression(params) : expression
-        )
-      )
+      const summaryExpression = await summary(params)
       resultColumnList.push(new ResultColumn(summaryExpression, `total_${shortcut.name}`))
 
       return { $select: resultColumnList }
-    }, shortcut.prerequisite)
+    }, prerequisite)
   }
   else {
     this.field(true, `${prefix.name}_${shortcut.name}${suffix.name}`, async params => {
@@ -600,35 +623,37 @@ async function registerSummaryMetricWithConditions(this: QueryDef, [prefix, suff
             typeof sExpr === 'function' ? sExpr(params) : sExpr
           ])
 
-          const summaryExpression = new FunctionExpression(
-            shortcut.summaryType === 'count' ? 'COUNT' : 'SUM',
-            new ParameterExpression(shortcut.summaryType === 'count' ? 'DISTINCT' : '',
-              IfExpression(expr, typeof expression === 'function' ? expression(params) : expression)
-            )
-          )
+          const summaryExpression = await summary(params, expr)
           resultColumnList.push(new ResultColumn(summaryExpression, `${sItem.value}_${pItem.value}_${shortcut.name}`))
         }
 
         // total
-        const summaryExpression = new FunctionExpression(
-          shortcut.summaryType === 'count' ? 'COUNT' : 'SUM',
-          new ParameterExpression(shortcut.summaryType === 'count' ? 'DISTINCT' : '',
-            IfExpression(
-              typeof pExpr === 'function' ? pExpr(params) : pExpr,
-              typeof expression === 'function' ? expression(params) : expression
-            )
-          )
-        )
+        const summaryExpression = await summary(params, typeof pExpr === 'function' ? pExpr(params) : pExpr)
         resultColumnList.push(new ResultColumn(summaryExpression, `total_${pItem.value}_${shortcut.name}`))
       }
 
       return { $select: resultColumnList }
-    })
+    }, prerequisite)
   }
 }
 
-export const SummaryMetricShortcutFunc: ShortcutFunc<ISummaryMetricArgShortcut | ISummaryMetricShortcut> = async function(this: QueryDef, shortcut: ISummaryMetricShortcut | ISummaryMetricArgShortcut, ctx: IConditionsContext) {
-  initializeContext(ctx)
+// combined with the conditions and the dimensions registered so far, and the ones registered later
+async function registerWithConditions(this: QueryDef, shortcut: SummaryMetrics, ctx: IConditionsContext) {
+  for (const suffix of ctx.suffixConditions) {
+    if (combines(shortcut, suffix)) await registerSummaryMetricWithConditions.bind(this)([suffix], shortcut, ctx)
+
+    // in case registered after conditions
+    for (const prefix of ctx.prefixConditions) {
+      if (combines(shortcut, prefix, suffix)) await registerSummaryMetricWithConditions.bind(this)([prefix, suffix], shortcut, ctx)
+    }
+  }
+
+  ctx.summaryMetrics.push(shortcut)
+}
+
+export const SummaryMetricShortcutFunc: ShortcutFunc<ISummaryMetricArgShortcut | ISummaryMetricShortcut> = async function(this: QueryDef, shortcut: ISummaryMetricShortcut | ISummaryMetricArgShortcut, ctx: IConditionsContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
+  if (shortcut.summaryType && !QueryDef.summaryTypes[shortcut.summaryType]) throw new Error(`Unknown summary type '${shortcut.summaryType}'`)
 
   const expression = 'expression' in shortcut
     ? typeof shortcut.expression === 'function'
@@ -644,27 +669,194 @@ export const SummaryMetricShortcutFunc: ShortcutFunc<ISummaryMetricArgShortcut |
 
   this.field(shortcut.name, params => {
     return {
-      $select: new ResultColumn(
-        new FunctionExpression(
-          shortcut.summaryType === 'count' ? 'COUNT' : 'SUM',
-          new ParameterExpression(shortcut.summaryType === 'count' ? 'DISTINCT' : '',
-            typeof expression === 'function' ? expression(params) : expression
-          )
-        ),
-        shortcut.name
-      )
+      $select: new ResultColumn(summarize(shortcut, typeof expression === 'function' ? expression(params) : expression), shortcut.name)
     }
-  }, shortcut.prerequisite)
+  }, shortcut.prerequisite, shortcut.metadata)
 
-  // suffix conditions
-  for (const suffix of ctx.suffixConditions) {
-    registerSummaryMetricWithConditions.bind(this)([suffix], shortcut, ctx)
+  await registerWithConditions.bind(this)(shortcut, ctx)
+}
 
-    // in case registered after conditions
-    for (const prefix of ctx.prefixConditions) {
-      registerSummaryMetricWithConditions.bind(this)([prefix, suffix], shortcut, ctx)
+export const DerivedMetricShortcutFunc: ShortcutFunc<IDerivedMetricShortcut> = async function(this: QueryDef, shortcut: IDerivedMetricShortcut, ctx: IConditionsContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
+  if (!shortcut.metrics || !shortcut.metrics.length) throw new Error('Derived metric requires the summary metrics it is derived from')
+
+  const summary = await summaryFuncOf(shortcut, ctx)
+  this.field(shortcut.name, async params => ({ $select: new ResultColumn(await summary(params), shortcut.name) }), prerequisiteOf(shortcut, ctx), shortcut.metadata)
+
+  await registerWithConditions.bind(this)(shortcut, ctx)
+}
+
+// alias-safe and unique, e.g. 'OOCL (HK)' -> 'OOCL__HK_'. 'total' is reserved for the total column
+function pivotAliases(values: any[]): string[] {
+  const reserved = ['total']
+  const result: string[] = []
+  for (const value of values) {
+    const alias = String(value).replace(/[^A-Za-z0-9_]/g, '_').substr(0, 32) || '_'
+    let unique = alias
+    for (let i = 2; result.indexOf(unique) > -1 || reserved.indexOf(unique) > -1; i += 1) unique = `${alias}_${i}`
+    result.push(unique)
+  }
+  return result
+}
+
+export const PivotShortcutFunc: ShortcutFunc<IPivotShortcut> = async function(this: QueryDef, shortcut: IPivotShortcut, ctx: IConditionsContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
+  const { name, metrics, values } = shortcut
+  if (!metrics || !metrics.length) throw new Error('Pivot requires the summary metrics to be pivoted')
+
+  const expression = typeof shortcut.expression === 'function' ? await shortcut.expression(ctx.registered) : shortcut.expression
+  const prerequisite = ctx.prerequisite
+  if (!ctx.pivots) ctx.pivots = []
+  if (ctx.pivots.indexOf(name) === -1) ctx.pivots.push(name)
+
+  // e.g. cbmCarrier -> OOCL_cbm, COSCO_cbm, ..., total_cbm
+  for (const metric of metrics) {
+    const summaryMetric = findSummaryMetric(metric, ctx)
+    const summary = await summaryFuncOf(summaryMetric, ctx)
+    const metricPrerequisite = prerequisiteOf(summaryMetric, ctx)
+
+    this.field(true, `${metric}${name}`, async params => {
+      let list = params.pivots && params.pivots[name]
+      if (!list) {
+        if (!values) throw new Error(`Missing pivot values of '${name}'`)
+        list = await values(params)
+      }
+      if (!Array.isArray(list)) throw new Error(`Pivot values of '${name}' should be an array`)
+      list = list.filter((v, i) => list.indexOf(v) === i)
+
+      const aliases = pivotAliases(list)
+      const resultColumnList = [] as ResultColumn[]
+      for (let i = 0, length = list.length; i < length; i += 1) {
+        const value = list[i]
+        const condition = value === null ? new IsNullExpression(expression, false) : new BinaryExpression(expression, '=', new Value(value))
+        resultColumnList.push(new ResultColumn(await summary(params, condition), `${aliases[i]}_${metric}`))
+      }
+      resultColumnList.push(new ResultColumn(await summary(params), `total_${metric}`))
+
+      return { $select: resultColumnList }
+    }, prerequisite && metricPrerequisite ? mergePrerequisite(prerequisite, metricPrerequisite) : prerequisite || metricPrerequisite, shortcut.metadata)
+  }
+}
+
+export const WindowMetricShortcutFunc: ShortcutFunc<IWindowMetricShortcut> = async function(this: QueryDef, shortcut: IWindowMetricShortcut, ctx: IConditionsContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
+  const { name, func, partitionBy = [], orderBy = [], offset = 1 } = shortcut
+  if (['sum', 'rank', 'rowNumber', 'lag', 'lead', 'share'].indexOf(func) === -1) throw new Error(`Unknown window function '${func}'`)
+  if ((func === 'lag' || func === 'lead' || func === 'rowNumber') && !orderBy.length) throw new Error(`Window function '${func}' requires orderBy`)
+
+  const summaryMetric = findSummaryMetric(shortcut.metric, ctx)
+  const summary = await summaryFuncOf(summaryMetric, ctx)
+  const orders = orderBy.map(o => typeof o === 'string' ? { key: o, direction: undefined } : o)
+
+  // the partition keys are grouped, while only the prerequisites of the order keys are applied i.e. not sorted by them
+  const keys: Prerequisite = async params => {
+    const result = partitionBy.map(k => `groupBy:${k}`)
+    for (const { key } of orders) {
+      const orderByDef = this.registration('orderBy', key)
+      if (!orderByDef) throw new Error(`Unknown orderBy '${key}' in window metric '${name}'`)
+      const prerequisite = await orderByDef.applyPrerequisite(params)
+      if (Array.isArray(prerequisite)) result.push(...prerequisite)
     }
+    return result
   }
+  const metricPrerequisite = prerequisiteOf(summaryMetric, ctx)
+  let prerequisite = metricPrerequisite ? mergePrerequisite(keys, metricPrerequisite) : keys
+  if (shortcut.prerequisite) prerequisite = mergePrerequisite(prerequisite, shortcut.prerequisite)
 
-  ctx.summaryMetrics.push(shortcut)
+  this.field(name, async params => {
+    const metric = await summary(params)
+
+    const partitions = [] as IExpression[]
+    for (const key of partitionBy) {
+      const groupByDef = this.registration('groupBy', key)
+      if (!groupByDef) throw new Error(`Unknown groupBy '${key}' in window metric '${name}'`)
+      const { $group } = dummyQuery({ $group: (await groupByDef.apply(params)).$group })
+      if ($group) partitions.push(...Array.isArray($group.expressions) ? $group.expressions : [$group.expressions])
+    }
+
+    const order = [] as IOrderBy[]
+    for (const { key, direction } of orders) {
+      const orderByDef = this.registration('orderBy', key)
+      if (!orderByDef) throw new Error(`Unknown orderBy '${key}' in window metric '${name}'`)
+      const { $order } = dummyQuery({ $order: (await orderByDef.apply(params)).$order })
+      for (const { expression, order: o } of $order) order.push({ expression, order: direction || o })
+    }
+
+    let expression: IExpression
+    switch (func) {
+      case 'sum':
+        expression = WindowExpression(new FunctionExpression('SUM', metric), partitions, order)
+        break
+      case 'rank':
+        // by the metric descendingly unless orderBy is specified
+        expression = WindowExpression(new FunctionExpression('RANK'), partitions, order.length ? order : [{ expression: metric, order: 'DESC' }])
+        break
+      case 'rowNumber':
+        expression = WindowExpression(new FunctionExpression('ROW_NUMBER'), partitions, order)
+        break
+      case 'lag':
+      case 'lead':
+        expression = WindowExpression(new FunctionExpression(func.toLocaleUpperCase(), metric, new Value(offset)), partitions, order)
+        break
+      default:
+        // share of total within the partition
+        expression = SafeDivideExpression(metric, WindowExpression(new FunctionExpression('SUM', metric), partitions))
+        break
+    }
+    return { $select: new ResultColumn(expression, name) }
+  }, prerequisite, shortcut.metadata)
+}
+
+export const ComparisonShortcutFunc: ShortcutFunc<IComparisonShortcut> = async function(this: QueryDef, shortcut: IComparisonShortcut, ctx: IConditionsContext & IDateSourceContext, options?: IDimensionOptions) {
+  initializeContext(ctx, options)
+  const { name, dateSource, metrics, period = 'lastYear' } = shortcut
+  if (!metrics || !metrics.length) throw new Error('Comparison requires the summary metrics to be compared')
+  if (['previousPeriod', 'lastYear'].indexOf(period) === -1) throw new Error(`Unknown comparison period '${period}'`)
+
+  const source = ctx.dateSources && ctx.dateSources[dateSource]
+  if (!source) throw new Error(`Date source '${dateSource}' not registered`)
+  const { expression, fiscalCalendar } = source
+  const dateOf = (params: IQueryParams) => typeof expression === 'function' ? expression(params) : expression
+
+  // the current range as the date source, and the one compared with
+  const ranges = (value: any, params: IQueryParams): [IDateRange, IDateRange] => {
+    const current = resolveDateRange(value, params, QueryDef.now, fiscalCalendar)
+    if (!current.from || !current.to) throw new Error(`Comparison '${name}' requires both from and to`)
+    return [current, previousDateRange(current, period)]
+  }
+
+  let prerequisite = source.prerequisite
+  if (shortcut.prerequisite) prerequisite = prerequisite ? mergePrerequisite(prerequisite, shortcut.prerequisite) : shortcut.prerequisite
+
+  // widened to both ranges, in place of the date source, which would filter the range compared with out
+  this.subquery(true, name, (value, params: IQueryParams = {}) => {
+    const subqueries = params.subqueries || {}
+    if (subqueries[dateSource]) throw new Error(`Comparison '${name}' replaces subquery '${dateSource}'. do not request both`)
+    const [current, previous] = ranges(value, params)
+    return { $where: new OrExpressions([betweenDates(dateOf(params), current, params), betweenDates(dateOf(params), previous, params)]) }
+  }, prerequisite, shortcut.metadata).expect(checkDateValue)
+
+  // e.g. cbmYoY -> cbm_current, cbm_previous, cbm_delta, cbm_pct_change
+  for (const metric of metrics) {
+    const summaryMetric = findSummaryMetric(metric, ctx)
+    const summary = await summaryFuncOf(summaryMetric, ctx)
+    const metricPrerequisite = prerequisiteOf(summaryMetric, ctx)
+
+    this.field(true, `${metric}${name}`, async params => {
+      const value = params.subqueries && params.subqueries[name]
+      if (!value) throw new Error(`Missing subquery '${name}' of the date range compared`)
+      const [current, previous] = ranges(value, params)
+      const currentExpression = await summary(params, betweenDates(dateOf(params), current, params))
+      const previousExpression = await summary(params, betweenDates(dateOf(params), previous, params))
+      const delta = new MathExpression(currentExpression, '-', previousExpression)
+      return {
+        $select: [
+          new ResultColumn(currentExpression, `${metric}_current`),
+          new ResultColumn(previousExpression, `${metric}_previous`),
+          new ResultColumn(delta, `${metric}_delta`),
+          new ResultColumn(new MathExpression(SafeDivideExpression(delta, previousExpression), '*', new Value(100)), `${metric}_pct_change`)
+        ]
+      }
+    }, prerequisite && metricPrerequisite ? mergePrerequisite(prerequisite, metricPrerequisite) : prerequisite || metricPrerequisite, shortcut.metadata)
+  }
 }
@@ -1,16 +1,18 @@
 import merge from 'deepmerge'
 import { IQuery, Query } from '@swivel-admin/node-jql'
-import { IVariable, IVariableOptions, Prerequisite, SubqueryArg } from './interface'
+import { IDescription, IMetadata, IRegistration, IVariable, IVariableOptions, Prerequisite, SubqueryArg } from './interface'
 import { IQueryParams } from './queryParams'
 import { dummyQuery, getUnknowns } from './utils'
 import * as swig from 'swig-templates'
 
 export class SubqueryDef {
   private readonly variables: IVariable[] = []
+  private check?: (value: any) => string | undefined
 
   constructor(
     private readonly arg: SubqueryArg,
-    private readonly prerequisite?: Prerequisite
+    private readonly prerequisite?: Prerequisite,
+    private readonly metadata: IMetadata = {}
   ) {}
 
   get hasVariables(): boolean {
@@ -31,6 +33,63 @@ export class SubqueryDef {
     return this
   }
 
+  // value shape of the function-based subquery, returning the problem if any
+  expect(check: (value: any) => string | undefined): SubqueryDef {
+    this.check = check
+    return this
+  }
+
+  allows(role: string): boolean {
+    const { roles } = this.metadata
+    return !roles || roles.indexOf(role) > -1
+  }
+
+  describe(name: string): IDescription {
+    const result: IDescription = { name, ...this.metadata }
+    if (this.hasVariables) {
+      result.variables = this.variables.reduce<Array<IVariable & { index: number }>>((r, v, index) => {
+        if (v) r.push({ ...v, index })
+        return r
+      }, [])
+    }
+    return result
+  }
+
+  toJson(name: string): IRegistration {
+    if (typeof this.arg === 'function' || typeof this.prerequisite === 'function') return { name, opaque: true }
+
+    const { name: _, variables, ...metadata } = this.describe(name)
+    const result: IRegistration = { name, query: new Query(this.arg).toJson() }
+    if (this.prerequisite && (!Array.isArray(this.prerequisite) || this.prerequisite.length)) {
+      result.prerequisite = JSON.parse(JSON.stringify(this.prerequisite))
+    }
+    if (Object.keys(metadata).length) result.metadata = metadata
+    if (variables) result.variables = variables
+    return result
+  }
+
+  // check if the value matches the shape expected, i.e. true, { value } or { from, to }
+  validate(value: any): string | undefined {
+    const variables = this.variables.filter(v => v)
+    if (!variables.length) {
+      if (typeof this.arg !== 'function') {
+        return value === true ? undefined : 'Expect true'
+      }
+      if (this.check) return this.check(value)
+      return value === true || (value && typeof value === 'object') ? undefined : 'Expect true or an object'
+    }
+
+    const required = variables.filter(v => v.default === undefined && !v.format).map(v => v.name)
+    if (value === true) {
+      return required.length ? `Missing ${required.map(n => `'${n}'`).join(', ')}` : undefined
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return `Expect an object with ${variables.map(v => `'${v.name}'`).join(', ')}`
+    }
+    const missing = required.filter(n => value[n] === undefined)
+    return missing.length ? `Missing ${missing.map(n => `'${n}'`).join(', ')}` : undefined
+  }
+
   async apply(params: IQueryParams): Promise<IQuery>
   async apply(name: string, params: IQueryParams): Promise<IQuery>
   async apply(arg0: string|IQueryParams, arg1?: IQueryParams): Promise<IQuery> {
@@ -78,12 +137,14 @@ export class SubqueryDef {
   clone(): SubqueryDef {
     const subqueryDef = new SubqueryDef(
       typeof this.arg === 'function' ? this.arg : new Query(this.arg),
-      !Array.isArray(this.prerequisite) ? this.prerequisite : [...(this.prerequisite || [])]
+      !Array.isArray(this.prerequisite) ? this.prerequisite : [...(this.prerequisite || [])],
+      { ...this.metadata }
     )
     for (let i = 0, length = this.variables.length; i < length; i += 1) {
       const { name, ...v } = this.variables[i]
       subqueryDef.register(name, i, v)
     }
+    if (this.check) subqueryDef.expect(this.check)
     return subqueryDef
   }
 }
\ No newline at end of file
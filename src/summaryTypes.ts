@@ -0,0 +1,62 @@
+import { AndExpressions, BinaryExpression, CaseExpression, FunctionExpression, IConditionalExpression, IExpression, MathExpression, ParameterExpression, Value } from '@swivel-admin/node-jql'
+import { IfExpression, toSql } from './utils'
+
+export interface ISummaryTypeOptions {
+  percentile?: number // 0 - 1, required by percentile
+}
+
+// aggregate the expression of the rows matching the condition if any, e.g. SUM(IF(condition, expression, NULL))
+export type SummaryTypeFunc = (expression: IExpression, condition?: IConditionalExpression, options?: ISummaryTypeOptions) => IExpression
+
+// NULL for the rows not matching, which is ignored by the aggregate functions
+function aggregate(func: string, distinct = false): SummaryTypeFunc {
+  return (expression, condition) => new FunctionExpression(func,
+    new ParameterExpression(distinct ? 'DISTINCT' : '', condition ? IfExpression(condition, expression) : expression)
+  )
+}
+
+// nearest rank in the sorted values, as MySQL has no PERCENTILE_CONT. NULL is ignored by both GROUP_CONCAT and COUNT
+// GROUP_CONCAT is cut at group_concat_max_len silently, so the query fails with invalid JSON text instead
+// unless the no. of the values concatenated matches COUNT, which also rejects the values with commas
+function nearestRank(percentile: number, expression: IExpression, condition?: IConditionalExpression): IExpression {
+  const value = condition ? IfExpression(condition, expression) : expression
+  const count = new FunctionExpression('COUNT', value)
+  const sorted = new FunctionExpression('GROUP_CONCAT', new ParameterExpression('', value, `ORDER BY ${toSql(value)} SEPARATOR ','`))
+  const concatenated = new MathExpression(
+    new MathExpression(new FunctionExpression('CHAR_LENGTH', sorted), '-', new FunctionExpression('CHAR_LENGTH', new FunctionExpression('REPLACE', sorted, new Value(','), new Value('')))),
+    '+',
+    new Value(1)
+  )
+  const rank = new FunctionExpression('GREATEST', new FunctionExpression('CEIL', new MathExpression(new Value(percentile), '*', count)), new Value(1))
+  const nth = new FunctionExpression('SUBSTRING_INDEX', new FunctionExpression('SUBSTRING_INDEX', sorted, new Value(','), rank), new Value(','), new Value(-1))
+  return new CaseExpression(
+    [
+      { $when: new BinaryExpression(count, '=', new Value(0)), $then: new Value(null) },
+      { $when: new BinaryExpression(concatenated, '=', count), $then: new MathExpression(nth, '+', new Value(0)) }
+    ],
+    new FunctionExpression('JSON_EXTRACT', new Value('group_concat_max_len exceeded'), new Value('$'))
+  )
+}
+
+// opt-in by QueryDef.registerSummaryType, with group_concat_max_len of the session raised for the no. of values per group
+export const nearestRankSummaryTypes: { [key: string]: SummaryTypeFunc } = {
+  median: (expression, condition) => nearestRank(0.5, expression, condition),
+  percentile: (expression, condition, { percentile } = {}) => {
+    if (typeof percentile !== 'number' || percentile < 0 || percentile > 1) throw new Error('Summary type percentile requires percentile 0 - 1')
+    return nearestRank(percentile, expression, condition)
+  }
+}
+
+export const defaultSummaryTypes: { [key: string]: SummaryTypeFunc } = {
+  count: aggregate('COUNT', true),
+  countAll: aggregate('COUNT'),
+  sum: aggregate('SUM'),
+  avg: aggregate('AVG'),
+  min: aggregate('MIN'),
+  max: aggregate('MAX'),
+
+  // the expression is a condition, i.e. no. of rows matching
+  countIf: (expression, condition) => new FunctionExpression('SUM',
+    IfExpression(condition ? new AndExpressions([condition, expression as IConditionalExpression]) : expression, new Value(1), new Value(0))
+  )
+}
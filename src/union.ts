@@ -0,0 +1,117 @@
+import { ColumnExpression, GroupBy, ILimitOffset, IResultColumn, OrderBy, Query, ResultColumn, Value } from '@swivel-admin/node-jql'
+import { QueryDef } from '.'
+import { IOptions } from './interface'
+import { IQueryParams } from './queryParams'
+
+export interface IUnionMember {
+  queryDef: QueryDef
+
+  // overrides of the shared params, e.g. { subqueries: { moduleType: { value: 'AIR' } } }. subqueries are merged
+  params?: IQueryParams | ((params: IQueryParams) => IQueryParams | Promise<IQueryParams>)
+  options?: IOptions
+}
+
+// over the union, by the aligned column names
+export interface IUnionParams {
+  groupBy?: string[]
+  aggregates?: { [key: string]: string }  // registered summary types of the columns not grouped. sum by default
+  sorting?: Array<string | { key: string; direction?: 'ASC' | 'DESC' }>
+  limit?: number | ILimitOffset
+}
+
+// the derived table of the union is substituted when rendered
+const UNION_TABLE = '__union__'
+const UNION_ALIAS = 'union_query'
+
+// name of the result column, i.e. $as or the column name
+function columnName({ expression, $as }: IResultColumn): string {
+  if ($as) return $as
+  if (expression instanceof ColumnExpression && expression.name !== '*') return expression.name
+  throw new Error('Union requires the result columns to be named')
+}
+
+export class UnionQuery {
+  constructor(readonly queries: Query[], readonly outer?: Query) {}
+
+  toString(type?: string): string {
+    const union = this.queries.map(q => `(${q.toString(type as any)})`).join(' UNION ALL ')
+    if (!this.outer) return union
+    return this.outer.toString(type as any).replace(new RegExp(`[\`"]?${UNION_TABLE}[\`"]?`), `(${union})`)
+  }
+}
+
+// UNION ALL of the queries applying the same params, with the columns aligned by name and NULL filled
+export class QueryDefUnion {
+  constructor(private readonly members: IUnionMember[]) {
+    if (!members.length) throw new Error('Union requires at least 1 member')
+  }
+
+  // sorting and limit are applied over the union instead, by the aligned column names
+  async apply(params: IQueryParams = {}, unionParams: IUnionParams = {}, options: IOptions = {}): Promise<UnionQuery> {
+    const { sorting, limit, cursor, ...shared } = params
+    if (cursor) throw new Error('Union does not support cursor')
+    if (sorting && unionParams.sorting) throw new Error('Union requires either params.sorting or unionParams.sorting')
+    if (limit && unionParams.limit) throw new Error('Union requires either params.limit or unionParams.limit')
+    if (sorting) {
+      unionParams = {
+        ...unionParams,
+        sorting: (Array.isArray(sorting) ? sorting : [sorting]).map(o => {
+          if (typeof o !== 'string' && !('key' in o)) throw new Error('Union requires sorting by the column names')
+          return o
+        })
+      }
+    }
+    if (limit) unionParams = { ...unionParams, limit }
+
+    const queries: Query[] = []
+    for (const { queryDef, params: override, options: memberOptions } of this.members) {
+      let memberParams: IQueryParams = shared
+      if (typeof override === 'function') {
+        memberParams = await override(shared)
+      }
+      else if (override) {
+        memberParams = { ...shared, ...override, subqueries: { ...shared.subqueries, ...override.subqueries } }
+      }
+      // fields not registered are NULL filled instead of selected as raw columns
+      queries.push(await queryDef.apply(memberParams, { ...options, ...memberOptions, skipDefFields: true }))
+    }
+
+    // in the order of the first member, then the ones missing
+    const columns: string[] = []
+    const selected = queries.map(query => {
+      const result: { [key: string]: IResultColumn } = {}
+      for (const column of query.$select) {
+        const name = columnName(column)
+        if (columns.indexOf(name) === -1) columns.push(name)
+        result[name] = column
+      }
+      return result
+    })
+    for (let i = 0, length = queries.length; i < length; i += 1) {
+      queries[i].$select = columns.map(name => selected[i][name] ? new ResultColumn(selected[i][name]) : new ResultColumn(new Value(null), name))
+    }
+
+    const { groupBy = [], aggregates = {}, sorting: outerSorting = [], limit: outerLimit } = unionParams
+    if (!groupBy.length && !outerSorting.length && !outerLimit) return new UnionQuery(queries)
+
+    for (const name of [...groupBy, ...Object.keys(aggregates)]) {
+      if (columns.indexOf(name) === -1) throw new Error(`Unknown column '${name}' in union`)
+    }
+    const $select = columns.map(name => {
+      const expression = new ColumnExpression(UNION_ALIAS, name)
+      if (!groupBy.length || groupBy.indexOf(name) > -1) return new ResultColumn(expression, name)
+      const summaryType = QueryDef.summaryTypes[aggregates[name] || 'sum']
+      if (!summaryType) throw new Error(`Unknown summary type '${aggregates[name]}'`)
+      return new ResultColumn(summaryType(expression), name)
+    })
+
+    const outer = new Query({
+      $select,
+      $from: { table: UNION_TABLE, $as: UNION_ALIAS },
+      $group: groupBy.length ? new GroupBy(groupBy.map(name => new ColumnExpression(UNION_ALIAS, name))) : undefined,
+      $order: outerSorting.map(o => typeof o === 'string' ? new OrderBy(o) : new OrderBy(o.key, o.direction || 'ASC')),
+      $limit: typeof outerLimit === 'number' ? { $limit: outerLimit } : outerLimit
+    })
+    return new UnionQuery(queries, outer)
+  }
+}
@@ -1,7 +1,7 @@
 import merge from 'deepmerge'
 import { AndExpressions, BetweenExpression, BinaryExpression, CaseExpression, ColumnExpression, ExistsExpression, Expression, FromTable, FunctionExpression, IConditionalExpression, IExpression, IFromTable, IGroupBy, InExpression, IOrderBy, IQuery, IResultColumn, IsNullExpression, LikeExpression, MathExpression, OrExpressions, ParameterExpression, Query, QueryExpression, RegexpExpression, Unknown, Value } from '@swivel-admin/node-jql'
 import { Prerequisite, SubqueryArg } from './interface'
-import { IQueryParams, OrderByParams } from './queryParams'
+import { FilterParams, IQueryParams, OrderByParams } from './queryParams'
 
 export function EqualOrInSubqueryArg(leftExpression: IExpression): SubqueryArg {
   return ({ value }) => {
@@ -26,6 +26,109 @@ export function IfNullExpression(value: IExpression, elseValue: IExpression): Fu
   return new FunctionExpression('IFNULL', value, elseValue)
 }
 
+// NULL instead of division by zero
+export function SafeDivideExpression(dividend: IExpression, divisor: IExpression): MathExpression {
+  return new MathExpression(dividend, '/', new FunctionExpression('NULLIF', divisor, new Value(0)))
+}
+
+// SQL of the expression, e.g. for the clauses not supported by node-jql
+export function toSql(expression: IExpression): string {
+  return new Query({ $select: [{ expression }] }).toString().replace(/^\s*SELECT\s+/i, '').trim()
+}
+
+// keywords of the top-level clauses, i.e. not in the parentheses or the quotes, e.g. { $where: 'WHERE' }
+const clauseKeywords: { [key: string]: string } = {
+  $with: 'WITH',
+  $select: 'SELECT',
+  $from: 'FROM',
+  $where: 'WHERE',
+  $group: 'GROUP BY',
+  $order: 'ORDER BY',
+  $limit: 'LIMIT'
+}
+
+// the SQL split by the top-level clauses, e.g. [{ clause: '$select', sql: 'SELECT ...' }, { clause: '$from', sql: 'FROM ...' }]
+export function splitClauses(sql: string): Array<{ clause: string; sql: string }> {
+  const starts: Array<{ clause: string; index: number }> = []
+  let depth = 0, quote = ''
+  for (let i = 0, length = sql.length; i < length; i += 1) {
+    const c = sql.charAt(i)
+    if (quote) {
+      if (c === '\\') i += 1
+      else if (c === quote) quote = ''
+    }
+    else if (c === "'" || c === '"' || c === '`') quote = c
+    else if (c === '(') depth += 1
+    else if (c === ')') depth -= 1
+    else if (!depth && (i === 0 || /\s/.test(sql.charAt(i - 1)))) {
+      for (const clause of Object.keys(clauseKeywords)) {
+        const keyword = clauseKeywords[clause]
+        // not WITH ROLLUP
+        if (clause === '$with' && starts.length) continue
+        if (sql.substr(i, keyword.length).toLocaleUpperCase() === keyword && /^(\s|$)/.test(sql.charAt(i + keyword.length))) {
+          starts.push({ clause, index: i })
+          break
+        }
+      }
+    }
+  }
+  return starts.map(({ clause, index }, i) => ({ clause, sql: sql.substring(index, i + 1 < starts.length ? starts[i + 1].index : sql.length).trim() }))
+}
+
+// expression OVER (...)
+export function WindowExpression(expression: IExpression, partitionBy: IExpression[] = [], orderBy: IOrderBy[] = []): IExpression {
+  const over: string[] = []
+  if (partitionBy.length) over.push(`PARTITION BY ${partitionBy.map(toSql).join(', ')}`)
+  if (orderBy.length) over.push(`ORDER BY ${orderBy.map(({ expression, order = 'ASC' }) => `${toSql(expression)} ${order}`).join(', ')}`)
+  return new ParameterExpression('', expression, `OVER (${over.join(' ')})`)
+}
+
+// NULLIF(divisor, 0) for every division within the expression, in place. either the instances or the JSON
+export function guardDivision<T>(expression: T): T {
+  const node: any = expression
+  if (Array.isArray(node)) {
+    for (const e of node) guardDivision(e)
+  }
+  else if (node && typeof node === 'object' && node.classname !== 'Value') {
+    if (node.classname === 'MathExpression' && node.operator === '/') {
+      const divisor = node.right
+      if (!(divisor && divisor.classname === 'FunctionExpression' && divisor.name === 'NULLIF')) node.right = new FunctionExpression('NULLIF', divisor, new Value(0))
+    }
+    for (const key of Object.keys(node)) guardDivision(node[key])
+  }
+  return expression
+}
+
+export function NotExpression(condition: IConditionalExpression): IConditionalExpression {
+  return new ParameterExpression('NOT (', condition, ')')
+}
+
+// 'and' | 'or' | 'not' if it is an operator node, otherwise a leaf
+export function filterOperator(filter: FilterParams): 'and' | 'or' | 'not' | undefined {
+  const keys = Object.keys(filter)
+  if (keys.length !== 1) return undefined
+  if ((keys[0] === 'and' || keys[0] === 'or') && Array.isArray(filter[keys[0]])) return keys[0] as 'and' | 'or'
+  if (keys[0] === 'not' && filter['not'] && typeof filter['not'] === 'object') return 'not'
+  return undefined
+}
+
+// registered subqueries referenced in the filter tree
+export function filterLeaves(filter?: FilterParams): Array<{ key: string; value: any }> {
+  const result: Array<{ key: string; value: any }> = []
+  if (!filter || typeof filter !== 'object') return result
+  const operator = filterOperator(filter)
+  if (operator === 'and' || operator === 'or') {
+    for (const f of filter[operator] as FilterParams[]) result.push(...filterLeaves(f))
+  }
+  else if (operator === 'not') {
+    result.push(...filterLeaves(filter['not']))
+  }
+  else {
+    for (const key of Object.keys(filter)) result.push({ key, value: filter[key] })
+  }
+  return result
+}
+
 export function getUnknowns(arg: Query | FromTable | Expression): Unknown[] {
   const result: Unknown[] = []
 
@@ -246,7 +349,7 @@ export function mergePrerequisite(left: Prerequisite, right: Prerequisite): Prer
     return mergePrerequisite(left.reduce<IQueryParams>((r, k) => {
       const pcs = k.split(':')
       let type = 'subquery'
-      if (['field', 'table', 'groupBy', 'orderBy'].indexOf(pcs[0]) > -1) type = pcs[0]
+      if (['field', 'table', 'groupBy', 'orderBy', 'cte'].indexOf(pcs[0]) > -1) type = pcs[0]
       switch (type) {
         case 'field': {
           if (!r.fields) r.fields = []
@@ -273,6 +376,11 @@ export function mergePrerequisite(left: Prerequisite, right: Prerequisite): Prer
           (r.sorting as OrderByParams[]).push(pcs[1])
           break
         }
+        case 'cte': {
+          if (!r.ctes) r.ctes = []
+          r.ctes.push(pcs[1])
+          break
+        }
       }
       return r
     }, {}), right)